@@ -0,0 +1,405 @@
+/**
+ * Background-owned generation pipeline
+ * Runs AI generation and upload in the service worker so jobs survive the popup closing
+ */
+
+import { generateCollocationsByWord } from '../shared/api/ai';
+import type { AddCollocationsResponse } from '../shared/api/server';
+import { db } from '../shared/cache/db';
+import { addMirrorEntries } from '../shared/cache/mirror';
+import { sortQueue } from '../shared/cache/queue';
+import { addReviewCards } from '../shared/review/store';
+import { syncOrQueue } from '../shared/sync/outbox';
+import { APIError, QuotaExceededError, RateLimitError } from '../shared/utils/error-handler';
+import type { CardSource, GenerationJob, WordGenerationResult } from '../shared/types/models';
+import type { GenerationProgressMessage } from '../shared/types/messages';
+import { updateReviewBadge } from './review';
+
+const JOB_SETTINGS_KEY = 'generationJob';
+const DEFAULT_CHUNK_SIZE = 10;
+const MAX_CHUNK_SIZE = 50;
+const RATE_LIMIT_PAUSE = 60 * 1000; // Used when a 429 carries no Retry-After
+const MIN_PAUSE = 30 * 1000; // Alarms cannot fire much sooner
+
+export const GENERATION_RESUME_ALARM = 'generationResume';
+
+let activeJob: GenerationJob | null = null;
+let activeRun: Promise<void> | null = null; // Settles when runJob returns
+let cancelRequested = false;
+let stopRequested = false; // Cancel without saving the chunk in flight
+
+/**
+ * Start a generation job for pending and failed queue items, in queue order
+ * Returns the running or paused job if there is one
+ * @param only - Restrict the job to these words
+ */
+export async function startGeneration(only?: string[]): Promise<GenerationJob | null> {
+  if (activeJob?.status === 'running') {
+    return activeJob;
+  }
+
+  const paused = await getPausedJob();
+  if (paused) {
+    return paused;
+  }
+
+  const waiting = await db.queue
+    .where('status')
+    .anyOf('pending', 'failed')
+    .toArray();
+  const items = sortQueue(only ? waiting.filter(item => only.includes(item.word)) : waiting);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const words = items.map(i => i.word);
+  cancelRequested = false;
+  activeJob = {
+    id: crypto.randomUUID(),
+    words,
+    status: 'running',
+    processed: 0,
+    total: words.length,
+    failed: 0,
+    collocationCount: 0,
+    queued: false,
+    startedAt: Date.now(),
+  };
+
+  await db.queue.bulkUpdate(words.map(word => ({
+    key: word,
+    changes: { status: 'processing', error: undefined },
+  })));
+  await publishJob(activeJob);
+
+  // Not awaited: the caller only needs the initial job state
+  startRun(activeJob);
+
+  return activeJob;
+}
+
+/**
+ * Request cancellation of the running or paused job
+ * Cancellation is cooperative: the chunk in flight finishes, remaining words return to pending
+ */
+export async function cancelGeneration(): Promise<GenerationJob | null> {
+  if (activeJob?.status === 'running') {
+    cancelRequested = true;
+    return activeJob;
+  }
+
+  const paused = await getPausedJob();
+  if (paused) {
+    await chrome.alarms.clear(GENERATION_RESUME_ALARM);
+    await finishCancelled(paused, []);
+  }
+  return getGenerationStatus();
+}
+
+/**
+ * Cancel the running or paused job and wait until nothing more is written
+ * Results of the chunk in flight are dropped and its words return to pending.
+ * Used before a profile switch, so no write lands in the next profile's data
+ */
+export async function stopGeneration(): Promise<void> {
+  if (activeRun) {
+    stopRequested = true;
+    cancelRequested = true;
+    await activeRun;
+  }
+  await cancelGeneration();
+
+  // The next status is read from the next profile's database
+  activeJob = null;
+}
+
+/**
+ * Continue a job paused by a rate limit or the daily quota
+ * Words removed or edited in the queue while it was paused are skipped
+ */
+export async function resumeGeneration(): Promise<GenerationJob | null> {
+  const job = await getPausedJob();
+  if (!job || activeJob?.status === 'running') {
+    return null;
+  }
+
+  const remaining = job.words.slice(job.processed);
+  const waiting = (await db.queue.bulkGet(remaining))
+    .filter(item => item?.status === 'pending')
+    .map(item => item!.word);
+
+  job.words = [...job.words.slice(0, job.processed), ...waiting];
+  job.total = job.words.length;
+  job.status = 'running';
+  job.pauseReason = undefined;
+  job.resumeAt = undefined;
+
+  await db.queue.bulkUpdate(waiting.map(word => ({
+    key: word,
+    changes: { status: 'processing', error: undefined },
+  })));
+
+  activeJob = job;
+  cancelRequested = false;
+  await publishJob(job);
+
+  startRun(job);
+  return job;
+}
+
+/**
+ * Get the current or most recent job
+ */
+export async function getGenerationStatus(): Promise<GenerationJob | null> {
+  if (activeJob) {
+    return activeJob;
+  }
+
+  const entry = await db.settings.get(JOB_SETTINGS_KEY);
+  return (entry?.value as GenerationJob | undefined) ?? null;
+}
+
+/**
+ * Mark a job left running by a terminated service worker as failed
+ * Must be called on worker startup, before any job is started
+ */
+export async function recoverInterruptedJob(): Promise<void> {
+  const entry = await db.settings.get(JOB_SETTINGS_KEY);
+  const job = entry?.value as GenerationJob | undefined;
+
+  if (!job || job.status !== 'running' || activeJob) {
+    return;
+  }
+
+  const error = 'Generation was interrupted';
+  await db.queue
+    .where('status')
+    .equals('processing')
+    .modify({ status: 'failed', error });
+
+  await saveJob({ ...job, status: 'failed', error, finishedAt: Date.now() });
+}
+
+function startRun(job: GenerationJob) {
+  stopRequested = false;
+  activeRun = runJob(job)
+    .catch(error => console.error('Generation job crashed:', error))
+    .finally(() => {
+      activeRun = null;
+    });
+}
+
+/**
+ * Generate chunk by chunk, persisting each word's result as soon as it arrives
+ */
+async function runJob(job: GenerationJob): Promise<void> {
+  const chunkSize = await getChunkSize();
+  let firstError: string | undefined;
+
+  // A resumed job continues after the words it already finished
+  for (let i = job.processed; i < job.words.length; i += chunkSize) {
+    if (cancelRequested) {
+      await finishCancelled(job, job.words.slice(i));
+      return;
+    }
+
+    const chunk = job.words.slice(i, i + chunkSize);
+    const items = await db.queue.bulkGet(chunk);
+    const sources = new Map(items.map(item => [item?.word, item?.context]));
+    let results: WordGenerationResult[];
+
+    try {
+      results = await generateCollocationsByWord(chunk, getSentences(sources));
+    } catch (error) {
+      const pause = getPause(error);
+      if (pause) {
+        await pauseJob(job, pause.reason, pause.resumeAt);
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      results = chunk.map(word => ({ word, lemma: word, collocations: [], error: message }));
+    }
+
+    for (const [index, result] of results.entries()) {
+      if (stopRequested) {
+        const unsaved = results.slice(index).map(r => r.word);
+        await finishCancelled(job, [...unsaved, ...job.words.slice(i + chunk.length)]);
+        return;
+      }
+
+      try {
+        await persistWordResult(job, result, sources.get(result.word));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await markWordFailed(job, result.word, message);
+        firstError ??= message;
+      }
+      firstError ??= result.error;
+    }
+
+    job.processed += chunk.length;
+    await publishJob(job);
+  }
+
+  job.status = job.failed === job.total ? 'failed' : 'completed';
+  if (job.status === 'failed') {
+    job.error = firstError;
+  }
+  job.finishedAt = Date.now();
+  await publishJob(job);
+}
+
+/**
+ * Upload one word's collocations and remove it from the queue,
+ * or leave it in the queue with its error
+ */
+async function persistWordResult(
+  job: GenerationJob,
+  result: WordGenerationResult,
+  source?: CardSource
+): Promise<void> {
+  if (result.error) {
+    await markWordFailed(job, result.word, result.error);
+    return;
+  }
+
+  if (source) {
+    result.collocations = result.collocations.map(c => ({ ...c, source }));
+  }
+
+  await db.collocationCache.put({
+    word: result.word,
+    collocations: result.collocations,
+    timestamp: Date.now(),
+  });
+
+  // New collocations join the review deck and the local mirror straight away
+  await addReviewCards(result.collocations);
+  await addMirrorEntries(result.collocations);
+
+  const outcome = await syncOrQueue<AddCollocationsResponse>('add', {
+    collocations: result.collocations,
+  });
+
+  job.collocationCount += result.collocations.length;
+  job.queued ||= outcome.queued;
+
+  await db.queue.update(result.word, { status: 'completed', error: undefined });
+  await db.queue.delete(result.word);
+}
+
+/**
+ * When a failed request means "wait", not "this chunk is bad"
+ */
+function getPause(error: unknown): { reason: NonNullable<GenerationJob['pauseReason']>; resumeAt: number } | null {
+  if (error instanceof QuotaExceededError) {
+    return { reason: 'quota', resumeAt: error.resetsAt };
+  }
+  if (error instanceof RateLimitError || (error instanceof APIError && error.statusCode === 429)) {
+    const wait = error instanceof RateLimitError ? error.retryAfter : undefined;
+    return { reason: 'rateLimit', resumeAt: Date.now() + Math.max(wait ?? RATE_LIMIT_PAUSE, MIN_PAUSE) };
+  }
+  return null;
+}
+
+/**
+ * Put the words not yet generated back in the queue and wake up later to continue
+ */
+async function pauseJob(job: GenerationJob, reason: NonNullable<GenerationJob['pauseReason']>, resumeAt: number): Promise<void> {
+  await db.queue.bulkUpdate(job.words.slice(job.processed).map(word => ({
+    key: word,
+    changes: { status: 'pending', error: undefined },
+  })));
+
+  job.status = 'paused';
+  job.pauseReason = reason;
+  job.resumeAt = resumeAt;
+  activeJob = null;
+
+  chrome.alarms.create(GENERATION_RESUME_ALARM, { when: resumeAt });
+  await publishJob(job);
+}
+
+/**
+ * The stored job, if it is waiting to resume
+ */
+async function getPausedJob(): Promise<GenerationJob | null> {
+  const entry = await db.settings.get(JOB_SETTINGS_KEY);
+  const job = entry?.value as GenerationJob | undefined;
+  return job?.status === 'paused' ? job : null;
+}
+
+/**
+ * Source sentences keyed by word, for words added from a page
+ */
+function getSentences(sources: Map<string | undefined, CardSource | undefined>): Record<string, string> {
+  const sentences: Record<string, string> = {};
+  for (const [word, source] of sources) {
+    if (word && source?.sentence) {
+      sentences[word] = source.sentence;
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Leave a word in the queue as failed so a retry only re-bills this word
+ */
+async function markWordFailed(job: GenerationJob, word: string, error: string): Promise<void> {
+  await db.queue.update(word, { status: 'failed', error });
+  job.failed++;
+}
+
+/**
+ * Read the configured number of words per AI request
+ */
+async function getChunkSize(): Promise<number> {
+  const { chunkSize } = await chrome.storage.sync.get('chunkSize');
+  const size = Number(chunkSize);
+
+  if (!Number.isInteger(size) || size < 1) {
+    return DEFAULT_CHUNK_SIZE;
+  }
+  return Math.min(size, MAX_CHUNK_SIZE);
+}
+
+/**
+ * Return the words not yet sent to the AI to the queue untouched
+ */
+async function finishCancelled(job: GenerationJob, remaining: string[]): Promise<void> {
+  await db.queue.bulkUpdate(remaining.map(word => ({
+    key: word,
+    changes: { status: 'pending', error: undefined },
+  })));
+
+  job.status = 'cancelled';
+  job.pauseReason = undefined;
+  job.resumeAt = undefined;
+  job.finishedAt = Date.now();
+  await publishJob(job);
+}
+
+/**
+ * Persist the job and notify any open extension page
+ */
+async function publishJob(job: GenerationJob): Promise<void> {
+  await saveJob(job);
+  await updateReviewBadge();
+
+  const message: GenerationProgressMessage = { action: 'generationProgress', job: { ...job } };
+
+  try {
+    await chrome.runtime.sendMessage(message);
+  } catch {
+    // No popup is open to receive progress
+  }
+}
+
+/**
+ * Save the job so status survives service worker restarts
+ */
+async function saveJob(job: GenerationJob): Promise<void> {
+  await db.settings.put({ key: JOB_SETTINGS_KEY, value: { ...job } });
+}
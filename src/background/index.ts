@@ -1,7 +1,49 @@
 import { sanitizeWord, isValidEnglishWord } from '../shared/utils/validation';
-import { checkWordExists } from '../shared/api/server';
-import { db, initDatabase } from '../shared/cache/db';
+import { initDatabase, selectActiveDatabase, selectDatabase } from '../shared/cache/db';
 import { migrateApiKey } from '../shared/security/keychain';
+import { flushSyncQueue, SYNC_ALARM_NAME } from '../shared/sync/outbox';
+import { syncMirrorIfStale } from '../shared/cache/mirror';
+import { DEFAULT_PROFILE_ID, getActiveProfile, getProfiles } from '../shared/profiles/store';
+import { ACTIVE_PROFILE_KEY } from '../shared/profiles/active';
+import type {
+  RuntimeRequest,
+  SelectionContextRequest,
+  SelectionContextResponse,
+} from '../shared/types/messages';
+import type { CardSource } from '../shared/types/models';
+import {
+  startGeneration,
+  cancelGeneration,
+  stopGeneration,
+  getGenerationStatus,
+  recoverInterruptedJob,
+  resumeGeneration,
+  GENERATION_RESUME_ALARM,
+} from './generation';
+import { addWordToQueue, lookupWord, toCardSource } from './queue';
+import { getVocabularyEntries, resetVocabularySnapshot } from './vocabulary';
+import { REVIEW_ALARM_NAME, updateReviewBadge } from './review';
+
+const MIRROR_PULL_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+// A fresh worker has no job in memory; anything still marked running was interrupted
+selectActiveDatabase()
+  .then(recoverInterruptedJob)
+  .catch(error => console.error('Failed to recover generation job:', error));
+showActiveProfile().catch(error => console.warn('Failed to show active profile:', error));
+
+// Follow profile switches made in the popup or options page
+chrome.storage.onChanged.addListener(async (changes, area) => {
+  if (area !== 'local' || !changes[ACTIVE_PROFILE_KEY]) return;
+
+  // The job belongs to the old profile's queue; let it stop writing before the database changes
+  await stopGeneration().catch(error => console.error('Failed to stop generation:', error));
+  selectDatabase(changes[ACTIVE_PROFILE_KEY].newValue || DEFAULT_PROFILE_ID);
+  resetVocabularySnapshot();
+
+  await showActiveProfile().catch(error => console.warn('Failed to show active profile:', error));
+  await updateReviewBadge().catch(error => console.error('Failed to update review badge:', error));
+});
 
 // Initialize
 chrome.runtime.onInstalled.addListener(async () => {
@@ -16,10 +58,95 @@ chrome.runtime.onInstalled.addListener(async () => {
     title: '📚 Add to vocabulary: "%s"',
     contexts: ['selection'],
   });
+
+  // Replay the offline outbox every minute
+  chrome.alarms.create(SYNC_ALARM_NAME, { periodInMinutes: 1 });
+
+  // Cards become due over time; keep the badge count current
+  chrome.alarms.create(REVIEW_ALARM_NAME, { periodInMinutes: 15 });
+  await updateReviewBadge();
+});
+
+// Alarms are not guaranteed to survive a browser restart
+chrome.runtime.onStartup.addListener(async () => {
+  chrome.alarms.create(SYNC_ALARM_NAME, { periodInMinutes: 1 });
+  chrome.alarms.create(REVIEW_ALARM_NAME, { periodInMinutes: 15 });
+  await selectActiveDatabase();
+  await updateReviewBadge();
+});
+
+// Replay immediately when connectivity returns
+self.addEventListener('online', () => {
+  selectActiveDatabase()
+    .then(flushSyncQueue)
+    .catch(error => console.error('Failed to flush sync queue:', error));
+});
+
+// Drain the offline outbox on each alarm tick
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  await selectActiveDatabase();
+
+  // A generation job paused by a rate limit or the daily quota continues
+  if (alarm.name === GENERATION_RESUME_ALARM) {
+    await resumeGeneration().catch(error => console.error('Failed to resume generation:', error));
+    return;
+  }
+  if (alarm.name === REVIEW_ALARM_NAME) {
+    await updateReviewBadge().catch(error => console.error('Failed to update review badge:', error));
+    return;
+  }
+  if (alarm.name !== SYNC_ALARM_NAME) return;
+
+  try {
+    await flushSyncQueue();
+  } catch (error) {
+    console.error('Failed to flush sync queue:', error);
+  }
+
+  // Keep the offline collocation store fresh
+  try {
+    await syncMirrorIfStale(MIRROR_PULL_INTERVAL);
+  } catch (error) {
+    console.warn('Failed to pull collocations:', error);
+  }
+});
+
+// Runtime message handlers, keyed by action
+const messageHandlers: {
+  [A in RuntimeRequest['action']]: (request: Extract<RuntimeRequest, { action: A }>) => Promise<unknown>;
+} = {
+  startGeneration: async request => ({ job: await startGeneration(request.words) }),
+  cancelGeneration: async () => ({ job: await cancelGeneration() }),
+  stopGeneration: () => stopGeneration(),
+  getGenerationStatus: async () => ({ job: await getGenerationStatus() }),
+  lookupWord: request => lookupWord(request.word),
+  addToQueue: request =>
+    addWordToQueue(request.word, request.context && toCardSource(request.context)).catch(error => {
+      console.error('Failed to add word:', error);
+      return { result: 'error', word: request.word };
+    }),
+  getVocabulary: async () => ({ entries: await getVocabularyEntries() }),
+  reviewUpdated: async () => updateReviewBadge(),
+};
+
+// Handle requests from the popup and content scripts
+chrome.runtime.onMessage.addListener((request: RuntimeRequest, _sender, sendResponse) => {
+  const handler = messageHandlers[request.action] as ((request: RuntimeRequest) => Promise<unknown>) | undefined;
+  if (!handler) return false;
+
+  selectActiveDatabase()
+    .then(() => handler(request))
+    .then(sendResponse)
+    .catch(error => {
+      console.error(`Failed to handle ${request.action}:`, error);
+      sendResponse(null);
+    });
+
+  return true; // Keep the channel open for the async response
 });
 
 // Handle context menu clicks
-chrome.contextMenus.onClicked.addListener(async (info) => {
+chrome.contextMenus.onClicked.addListener(async (info, tab) => {
   if (info.menuItemId !== 'addVocabulary') return;
 
   const word = sanitizeWord(info.selectionText || '');
@@ -30,35 +157,70 @@ chrome.contextMenus.onClicked.addListener(async (info) => {
   }
 
   try {
-    // Check if already exists
-    const exists = await checkWordExists(word);
-    if (exists) {
-      showNotification('warning', `"${word}" already exists in database`);
-      return;
-    }
+    await selectActiveDatabase();
+    const context = await getSelectionContext(word, info, tab);
+    const { result, count } = await addWordToQueue(word, context);
 
-    // Check if already in queue
-    const inQueue = await db.queue.get(word);
-    if (inQueue) {
+    if (result === 'exists') {
+      showNotification('warning', `"${word}" already exists in database`);
+    } else if (result === 'inQueue') {
       showNotification('warning', `"${word}" already in queue`);
-      return;
+    } else {
+      showNotification('success', `Added "${word}" to queue (${count} words)`);
     }
-
-    // Add to queue
-    await db.queue.add({
-      word,
-      addedAt: new Date(),
-      status: 'pending',
-    });
-
-    const count = await db.queue.count();
-    showNotification('success', `Added "${word}" to queue (${count} words)`);
   } catch (error) {
     console.error('Failed to add word:', error);
     showNotification('error', 'Failed to add word');
   }
 });
 
+// Name the active profile in the toolbar tooltip once there is more than one
+async function showActiveProfile() {
+  const [profiles, active] = await Promise.all([getProfiles(), getActiveProfile()]);
+  await chrome.action.setTitle({
+    title: profiles.length > 1 ? `Vocabulary Manager (${active.name})` : 'Vocabulary Manager',
+  });
+}
+
+// Ask the content script for the sentence around the selection
+async function getSelectionContext(
+  word: string,
+  info: chrome.contextMenus.OnClickData,
+  tab?: chrome.tabs.Tab
+): Promise<CardSource> {
+  const fallback: CardSource = {
+    url: info.pageUrl,
+    title: tab?.title,
+    capturedAt: new Date(),
+  };
+
+  if (tab?.id === undefined) {
+    return fallback;
+  }
+
+  try {
+    const request: SelectionContextRequest = { action: 'getSelectionContext' };
+    const response: SelectionContextResponse | null = await chrome.tabs.sendMessage(tab.id, request, {
+      frameId: info.frameId,
+    });
+
+    // Ignore a stale capture from an earlier selection
+    if (!response || sanitizeWord(response.text) !== word) {
+      return fallback;
+    }
+
+    return {
+      url: response.url,
+      title: response.title,
+      sentence: response.sentence,
+      capturedAt: new Date(response.capturedAt),
+    };
+  } catch {
+    // Content script not injected (e.g. chrome:// pages or tabs opened before install)
+    return fallback;
+  }
+}
+
 // Show notification
 function showNotification(type: 'success' | 'error' | 'warning', message: string) {
   const titles = {
@@ -0,0 +1,111 @@
+/**
+ * Word queue operations shared by the context menu and the in-page bubble
+ */
+
+import { sanitizeWord, isValidEnglishWord } from '../shared/utils/validation';
+import { checkWordExists, getCollocationsByHeadword } from '../shared/api/server';
+import { checkWordWithCache, getCollocationsWithCache } from '../shared/cache/strategies';
+import { db } from '../shared/cache/db';
+import { getMirroredByHeadword } from '../shared/cache/mirror';
+import { normalizeCollocation } from '../shared/utils/cards';
+import type { CardSource } from '../shared/types/models';
+import type {
+  AddToQueueResponse,
+  LookupWordResponse,
+  SelectionContextResponse,
+} from '../shared/types/messages';
+
+/**
+ * Add a word to the generation queue unless it is known or already queued
+ * @param rawWord - Word as selected or typed
+ * @param context - Where the word was found
+ * @returns Outcome and queue size
+ */
+export async function addWordToQueue(
+  rawWord: string,
+  context?: CardSource
+): Promise<AddToQueueResponse> {
+  const word = sanitizeWord(rawWord);
+
+  if (!isValidEnglishWord(word)) {
+    return { result: 'invalid', word };
+  }
+
+  // Check if already exists
+  const exists = await checkWordWithCache(word, checkWordExists);
+  if (exists) {
+    return { result: 'exists', word };
+  }
+
+  // Check if already in queue
+  const inQueue = await db.queue.get(word);
+  if (inQueue) {
+    return { result: 'inQueue', word };
+  }
+
+  await db.queue.add({
+    word,
+    addedAt: new Date(),
+    status: 'pending',
+    context,
+  });
+
+  return { result: 'added', word, count: await db.queue.count() };
+}
+
+/**
+ * Look up what the extension knows about a word
+ * @param rawWord - Word as selected
+ */
+export async function lookupWord(rawWord: string): Promise<LookupWordResponse> {
+  const word = sanitizeWord(rawWord);
+  const response: LookupWordResponse = {
+    word,
+    valid: isValidEnglishWord(word),
+    exists: false,
+    inQueue: false,
+    collocations: [],
+  };
+
+  if (!response.valid) {
+    return response;
+  }
+
+  response.inQueue = !!(await db.queue.get(word));
+
+  const cached = await db.collocationCache.get(word);
+  response.collocations = (cached?.collocations || []).map(normalizeCollocation);
+
+  try {
+    response.exists = await checkWordWithCache(word, checkWordExists);
+
+    // Known word generated elsewhere: fetch its saved collocations
+    if (response.exists && response.collocations.length === 0) {
+      response.collocations = await getCollocationsWithCache(word, ([headword]) => getCollocationsByHeadword(headword));
+    }
+  } catch (error) {
+    response.error = error instanceof Error ? error.message : String(error);
+  }
+
+  // The local mirror still knows saved words when the server is unreachable
+  if (response.collocations.length === 0) {
+    response.collocations = await getMirroredByHeadword(word);
+    if (response.error) {
+      response.exists = response.collocations.length > 0;
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Convert a content-script capture into a card source
+ */
+export function toCardSource(context: SelectionContextResponse): CardSource {
+  return {
+    url: context.url,
+    title: context.title,
+    sentence: context.sentence,
+    capturedAt: new Date(context.capturedAt),
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Toolbar badge showing the number of cards due for review
+ */
+
+import { getDueCount } from '../shared/review/store';
+
+export const REVIEW_ALARM_NAME = 'reviewBadge';
+
+const BADGE_COLOR = '#2563eb';
+const MAX_BADGE_COUNT = 99;
+
+/**
+ * Refresh the toolbar badge with the current due count
+ */
+export async function updateReviewBadge(): Promise<void> {
+  const count = await getDueCount();
+
+  await chrome.action.setBadgeBackgroundColor({ color: BADGE_COLOR });
+  await chrome.action.setBadgeText({
+    text: count === 0 ? '' : count > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : String(count),
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Vocabulary snapshot for the page highlighter
+ * Cached in memory so every tab does not hit the server
+ */
+
+import { getMirroredCollocations, syncMirrorIfStale } from '../shared/cache/mirror';
+import type { Collocation } from '../shared/types/models';
+import type { VocabularyEntry } from '../shared/types/messages';
+
+const SNAPSHOT_TTL = 10 * 60 * 1000; // 10 minutes
+
+interface VocabularySnapshot {
+  entries: VocabularyEntry[];
+  timestamp: number;
+}
+
+let snapshot: VocabularySnapshot | null = null;
+
+/**
+ * Get vocabulary entries for highlighting
+ * Read from the local mirror, so highlighting keeps working offline
+ */
+export async function getVocabularyEntries(): Promise<VocabularyEntry[]> {
+  if (snapshot && Date.now() < snapshot.timestamp + SNAPSHOT_TTL) {
+    return snapshot.entries;
+  }
+
+  try {
+    await syncMirrorIfStale(SNAPSHOT_TTL);
+  } catch (error) {
+    console.warn('Failed to pull vocabulary, using the local mirror:', error);
+  }
+
+  snapshot = { entries: toEntries(await getMirroredCollocations()), timestamp: Date.now() };
+  return snapshot.entries;
+}
+
+/**
+ * Forget the cached entries, e.g. after a profile switch
+ */
+export function resetVocabularySnapshot(): void {
+  snapshot = null;
+}
+
+/**
+ * One entry per collocation, plus one per headword so single words match too
+ */
+function toEntries(collocations: Collocation[]): VocabularyEntry[] {
+  const entries: VocabularyEntry[] = [];
+  const headwords = new Set<string>();
+
+  for (const card of collocations) {
+    const base = { collocation: card.collocation, ipa: card.ipa, meaning: card.meaning };
+    entries.push({ term: card.collocation, ...base });
+
+    const headword = card.headword?.toLowerCase();
+    if (headword && !headwords.has(headword)) {
+      headwords.add(headword);
+      entries.push({ term: headword, ...base });
+    }
+  }
+
+  return entries;
+}
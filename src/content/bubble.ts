@@ -0,0 +1,218 @@
+/**
+ * In-page lookup bubble
+ * Rendered in a shadow DOM so page styles cannot leak in (or out)
+ */
+
+import type {
+  AddToQueueRequest,
+  AddToQueueResponse,
+  LookupWordRequest,
+  LookupWordResponse,
+  SelectionContextResponse,
+} from '../shared/types/messages';
+
+const MAX_PREVIEW_COLLOCATIONS = 3;
+
+const BUBBLE_STYLES = `
+  :host { all: initial; }
+  .bubble {
+    position: absolute;
+    z-index: 2147483647;
+    width: 280px;
+    padding: 12px;
+    border-radius: 8px;
+    border: 1px solid #e5e7eb;
+    background: #ffffff;
+    color: #111827;
+    box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -4px rgba(0, 0, 0, 0.1);
+    font: 13px/1.4 system-ui, -apple-system, 'Segoe UI', sans-serif;
+  }
+  .header { display: flex; align-items: center; justify-content: space-between; gap: 8px; }
+  .word { font-weight: 600; font-size: 15px; }
+  .close { border: none; background: none; color: #9ca3af; cursor: pointer; font-size: 14px; }
+  .status { margin-top: 4px; font-size: 12px; color: #6b7280; }
+  .status.known { color: #15803d; }
+  .status.error { color: #b91c1c; }
+  .list { margin: 8px 0 0; padding: 0; list-style: none; }
+  .list li { padding: 4px 0; border-top: 1px solid #f3f4f6; }
+  .ipa { color: #6b7280; font-size: 12px; margin-left: 4px; }
+  .meaning { display: block; color: #374151; font-size: 12px; }
+  .add {
+    margin-top: 10px;
+    width: 100%;
+    padding: 6px 12px;
+    border: none;
+    border-radius: 6px;
+    background: #2563eb;
+    color: #ffffff;
+    font: inherit;
+    font-weight: 500;
+    cursor: pointer;
+  }
+  .add:hover { background: #1d4ed8; }
+  .add:disabled { opacity: 0.5; cursor: not-allowed; }
+  @media (prefers-color-scheme: dark) {
+    .bubble { background: #1f2937; color: #f3f4f6; border-color: #374151; }
+    .list li { border-color: #374151; }
+    .meaning { color: #d1d5db; }
+  }
+`;
+
+let host: HTMLDivElement | null = null;
+let shadow: ShadowRoot | null = null;
+let lookupId = 0;
+
+/**
+ * Show the bubble below a selection and look the word up
+ * @param word - Selected word
+ * @param rect - Selection bounds (viewport coordinates)
+ * @param context - Captured selection context
+ */
+export async function showBubble(
+  word: string,
+  rect: DOMRect,
+  context: SelectionContextResponse | null
+): Promise<void> {
+  const root = ensureRoot();
+  const id = ++lookupId;
+
+  root.innerHTML = `<style>${BUBBLE_STYLES}</style>`;
+
+  const bubble = document.createElement('div');
+  bubble.className = 'bubble';
+  bubble.style.left = `${Math.max(8, window.scrollX + rect.left)}px`;
+  bubble.style.top = `${window.scrollY + rect.bottom + 8}px`;
+  bubble.innerHTML = `
+    <div class="header">
+      <span class="word"></span>
+      <button class="close" title="Close">✕</button>
+    </div>
+    <div class="status">Checking…</div>
+  `;
+  bubble.querySelector('.word')!.textContent = word;
+  bubble.querySelector('.close')!.addEventListener('click', hideBubble);
+  root.appendChild(bubble);
+
+  const request: LookupWordRequest = { action: 'lookupWord', word };
+  let lookup: LookupWordResponse | null;
+
+  try {
+    lookup = await chrome.runtime.sendMessage(request);
+  } catch {
+    lookup = null; // Extension was reloaded; this content script is orphaned
+  }
+
+  // A newer selection replaced this bubble while we waited
+  if (id !== lookupId || !lookup?.valid) {
+    if (id === lookupId) hideBubble();
+    return;
+  }
+
+  renderLookup(bubble, lookup, context);
+}
+
+/**
+ * Remove the bubble
+ */
+export function hideBubble(): void {
+  lookupId++;
+  if (shadow) {
+    shadow.innerHTML = '';
+  }
+}
+
+/**
+ * Check whether an event happened inside the bubble
+ */
+export function isInsideBubble(event: Event): boolean {
+  return !!host && event.composedPath().includes(host);
+}
+
+// Create the shadow host on first use
+function ensureRoot(): ShadowRoot {
+  if (!host || !host.isConnected) {
+    host = document.createElement('div');
+    host.id = 'vocabulary-manager-bubble';
+    host.style.cssText = 'position: absolute; top: 0; left: 0;';
+    shadow = host.attachShadow({ mode: 'closed' });
+    document.documentElement.appendChild(host);
+  }
+  return shadow!;
+}
+
+// Fill the bubble with lookup results
+function renderLookup(
+  bubble: HTMLDivElement,
+  lookup: LookupWordResponse,
+  context: SelectionContextResponse | null
+) {
+  const status = bubble.querySelector('.status') as HTMLDivElement;
+
+  if (lookup.error) {
+    status.className = 'status error';
+    status.textContent = 'Server unreachable — cannot check vocabulary';
+  } else if (lookup.exists) {
+    status.className = 'status known';
+    status.textContent = '✓ Already in your vocabulary';
+  } else if (lookup.inQueue) {
+    status.textContent = 'In queue, waiting for generation';
+  } else {
+    status.textContent = 'New word';
+  }
+
+  if (lookup.collocations.length > 0) {
+    const list = document.createElement('ul');
+    list.className = 'list';
+
+    for (const card of lookup.collocations.slice(0, MAX_PREVIEW_COLLOCATIONS)) {
+      const item = document.createElement('li');
+      const title = document.createElement('strong');
+      const ipa = document.createElement('span');
+      const meaning = document.createElement('span');
+
+      title.textContent = card.collocation;
+      ipa.className = 'ipa';
+      ipa.textContent = card.ipa || '';
+      meaning.className = 'meaning';
+      meaning.textContent = card.meaning || '';
+
+      item.append(title, ipa, meaning);
+      list.appendChild(item);
+    }
+
+    bubble.appendChild(list);
+  }
+
+  if (!lookup.exists && !lookup.inQueue) {
+    const addBtn = document.createElement('button');
+    addBtn.className = 'add';
+    addBtn.textContent = '📚 Add to queue';
+    addBtn.addEventListener('click', () => handleAdd(addBtn, status, lookup.word, context));
+    bubble.appendChild(addBtn);
+  }
+}
+
+// Add the word to the queue through the background worker
+async function handleAdd(
+  addBtn: HTMLButtonElement,
+  status: HTMLDivElement,
+  word: string,
+  context: SelectionContextResponse | null
+) {
+  addBtn.disabled = true;
+
+  const request: AddToQueueRequest = { action: 'addToQueue', word, context: context || undefined };
+  const response: AddToQueueResponse | null = await chrome.runtime.sendMessage(request).catch(() => null);
+
+  const messages: Record<AddToQueueResponse['result'], string> = {
+    added: `Added to queue (${response?.count ?? 0} words)`,
+    exists: '✓ Already in your vocabulary',
+    inQueue: 'Already in queue',
+    invalid: 'Invalid word format',
+    error: 'Failed to add word',
+  };
+
+  status.className = response?.result === 'error' || !response ? 'status error' : 'status known';
+  status.textContent = messages[response?.result ?? 'error'];
+  addBtn.remove();
+}
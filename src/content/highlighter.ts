@@ -0,0 +1,312 @@
+/**
+ * Vocabulary highlighter
+ * Marks saved headwords and collocations (including inflected forms) on the page
+ */
+
+import type { GetVocabularyRequest, GetVocabularyResponse, VocabularyEntry } from '../shared/types/messages';
+import { lemmaCandidates, tokenizeTerm } from '../shared/utils/lemma';
+
+const MARK_CLASS = 'vm-highlight';
+const STYLE_ID = 'vocabulary-manager-highlight-style';
+const TOOLTIP_HOST_ID = 'vocabulary-manager-tooltip';
+const MUTATION_DEBOUNCE = 300;
+const SKIP_SELECTOR = `script, style, noscript, textarea, input, select, code, pre, svg, [contenteditable=""], [contenteditable="true"], mark.${MARK_CLASS}, #vocabulary-manager-bubble`;
+const WORD_PATTERN = /[A-Za-z]+(?:['-][A-Za-z]+)*/g;
+
+const MARK_STYLES = `
+  mark.${MARK_CLASS} {
+    background: rgba(250, 204, 21, 0.35);
+    color: inherit;
+    border-bottom: 1px dotted #ca8a04;
+    border-radius: 2px;
+    padding: 0;
+    cursor: help;
+  }
+`;
+
+const TOOLTIP_STYLES = `
+  :host { all: initial; }
+  .tooltip {
+    position: absolute;
+    z-index: 2147483647;
+    max-width: 260px;
+    padding: 8px 10px;
+    border-radius: 6px;
+    background: #111827;
+    color: #f9fafb;
+    box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.2);
+    font: 12px/1.4 system-ui, -apple-system, 'Segoe UI', sans-serif;
+    pointer-events: none;
+  }
+  .collocation { font-weight: 600; font-size: 13px; }
+  .ipa { color: #9ca3af; margin-left: 4px; }
+  .meaning { display: block; margin-top: 2px; }
+`;
+
+interface IndexedTerm {
+  tokens: string[];
+  entryIndex: number; // Position in entries, stored on the <mark>
+}
+
+// Terms keyed by their first token, longest first
+let termIndex = new Map<string, IndexedTerm[]>();
+let entries: VocabularyEntry[] = [];
+let observer: MutationObserver | null = null;
+let pendingRoots: Node[] = [];
+let mutationTimer: ReturnType<typeof setTimeout> | undefined;
+let idleHandle: number | undefined;
+let tooltipHost: HTMLDivElement | null = null;
+let tooltipRoot: ShadowRoot | null = null;
+let active = false;
+
+/**
+ * Load the vocabulary and highlight the page, then keep up with DOM changes
+ */
+export async function enableHighlighting(): Promise<void> {
+  if (active) return;
+  active = true;
+
+  const request: GetVocabularyRequest = { action: 'getVocabulary' };
+  let response: GetVocabularyResponse | null;
+
+  try {
+    response = await chrome.runtime.sendMessage(request);
+  } catch {
+    response = null; // Extension was reloaded; this content script is orphaned
+  }
+
+  // Disabled again while loading, or nothing to highlight
+  if (!active || !response || response.entries.length === 0) return;
+
+  entries = response.entries;
+  termIndex = buildIndex(entries);
+
+  injectStyles();
+  document.addEventListener('mouseover', handleMouseOver);
+  document.addEventListener('mouseout', handleMouseOut);
+
+  observer = new MutationObserver(handleMutations);
+  observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+
+  scheduleScan([document.body]);
+}
+
+/**
+ * Remove all highlights and stop watching the page
+ */
+export function disableHighlighting(): void {
+  active = false;
+
+  observer?.disconnect();
+  observer = null;
+  clearTimeout(mutationTimer);
+  if (idleHandle !== undefined) cancelIdleCallback(idleHandle);
+  idleHandle = undefined;
+  pendingRoots = [];
+
+  document.removeEventListener('mouseover', handleMouseOver);
+  document.removeEventListener('mouseout', handleMouseOut);
+  hideTooltip();
+
+  for (const mark of document.querySelectorAll(`mark.${MARK_CLASS}`)) {
+    const parent = mark.parentNode;
+    if (!parent) continue;
+
+    parent.replaceChild(document.createTextNode(mark.textContent || ''), mark);
+    parent.normalize();
+  }
+
+  document.getElementById(STYLE_ID)?.remove();
+}
+
+// Index terms by the first token so each page word needs only a map lookup
+function buildIndex(vocabulary: VocabularyEntry[]): Map<string, IndexedTerm[]> {
+  const index = new Map<string, IndexedTerm[]>();
+
+  vocabulary.forEach((entry, entryIndex) => {
+    const tokens = tokenizeTerm(entry.term);
+    if (tokens.length === 0) return;
+
+    const bucket = index.get(tokens[0]) || [];
+    bucket.push({ tokens, entryIndex });
+    index.set(tokens[0], bucket);
+  });
+
+  // Prefer the longest match: "make a decision" over "decision"
+  for (const bucket of index.values()) {
+    bucket.sort((a, b) => b.tokens.length - a.tokens.length);
+  }
+
+  return index;
+}
+
+function injectStyles() {
+  if (document.getElementById(STYLE_ID)) return;
+
+  const style = document.createElement('style');
+  style.id = STYLE_ID;
+  style.textContent = MARK_STYLES;
+  (document.head || document.documentElement).appendChild(style);
+}
+
+// Collect added content and rescan it once the page settles
+function handleMutations(mutations: MutationRecord[]) {
+  for (const mutation of mutations) {
+    if (mutation.type === 'characterData') {
+      pendingRoots.push(mutation.target);
+    } else {
+      pendingRoots.push(...mutation.addedNodes);
+    }
+  }
+
+  clearTimeout(mutationTimer);
+  mutationTimer = setTimeout(() => {
+    const roots = pendingRoots;
+    pendingRoots = [];
+    scheduleScan(roots);
+  }, MUTATION_DEBOUNCE);
+}
+
+// Walk text nodes in idle time so large pages don't block scrolling
+function scheduleScan(roots: Node[]) {
+  const textNodes: Text[] = [];
+
+  for (const root of roots) {
+    if (!root.isConnected) continue;
+
+    if (root instanceof Text) {
+      if (isScannable(root)) textNodes.push(root);
+      continue;
+    }
+
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+      acceptNode: node => (isScannable(node as Text) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT),
+    });
+    while (walker.nextNode()) {
+      textNodes.push(walker.currentNode as Text);
+    }
+  }
+
+  const processBatch = (deadline: IdleDeadline) => {
+    while (textNodes.length > 0 && deadline.timeRemaining() > 1) {
+      highlightTextNode(textNodes.shift()!);
+    }
+
+    // Our own DOM changes are not new page content
+    observer?.takeRecords();
+
+    idleHandle = textNodes.length > 0 && active ? requestIdleCallback(processBatch) : undefined;
+  };
+
+  if (textNodes.length > 0) {
+    idleHandle = requestIdleCallback(processBatch);
+  }
+}
+
+function isScannable(node: Text): boolean {
+  if (!node.isConnected || !node.data.trim()) return false;
+  const parent = node.parentElement;
+  return !!parent && !parent.closest(SKIP_SELECTOR);
+}
+
+// Wrap every vocabulary match in a text node with a <mark>
+function highlightTextNode(node: Text) {
+  if (!isScannable(node)) return;
+
+  const words = [...node.data.matchAll(WORD_PATTERN)].map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    lemmas: lemmaCandidates(match[0]),
+  }));
+
+  const matches: { start: number; end: number; entryIndex: number }[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const term = findTermAt(words, i);
+    if (!term) continue;
+
+    const last = words[i + term.tokens.length - 1];
+    matches.push({ start: words[i].start, end: last.end, entryIndex: term.entryIndex });
+    i += term.tokens.length - 1;
+  }
+
+  // Wrap from the end so earlier offsets stay valid
+  for (const match of matches.reverse()) {
+    const target = node.splitText(match.start);
+    target.splitText(match.end - match.start);
+
+    const mark = document.createElement('mark');
+    mark.className = MARK_CLASS;
+    mark.dataset.vmEntry = String(match.entryIndex);
+    target.parentNode!.replaceChild(mark, target);
+    mark.appendChild(target);
+  }
+}
+
+function findTermAt(words: { lemmas: string[] }[], position: number): IndexedTerm | undefined {
+  for (const lemma of words[position].lemmas) {
+    const candidates = termIndex.get(lemma);
+    if (!candidates) continue;
+
+    const term = candidates.find(
+      candidate =>
+        position + candidate.tokens.length <= words.length &&
+        candidate.tokens.every((token, offset) => words[position + offset].lemmas.includes(token))
+    );
+    if (term) return term;
+  }
+  return undefined;
+}
+
+function handleMouseOver(event: MouseEvent) {
+  const mark = (event.target as Element | null)?.closest?.(`mark.${MARK_CLASS}`) as HTMLElement | null;
+  const entry = mark ? entries[Number(mark.dataset.vmEntry)] : undefined;
+
+  if (mark && entry) {
+    showTooltip(entry, mark.getBoundingClientRect());
+  }
+}
+
+function handleMouseOut(event: MouseEvent) {
+  if ((event.target as Element | null)?.closest?.(`mark.${MARK_CLASS}`)) {
+    hideTooltip();
+  }
+}
+
+// Tooltip lives in a shadow root so page styles cannot restyle it
+function showTooltip(entry: VocabularyEntry, rect: DOMRect) {
+  if (!tooltipHost || !tooltipHost.isConnected) {
+    tooltipHost = document.createElement('div');
+    tooltipHost.id = TOOLTIP_HOST_ID;
+    tooltipHost.style.cssText = 'position: absolute; top: 0; left: 0;';
+    tooltipRoot = tooltipHost.attachShadow({ mode: 'closed' });
+    document.documentElement.appendChild(tooltipHost);
+  }
+
+  tooltipRoot!.innerHTML = `<style>${TOOLTIP_STYLES}</style>`;
+
+  const tooltip = document.createElement('div');
+  tooltip.className = 'tooltip';
+  tooltip.style.left = `${Math.max(8, window.scrollX + rect.left)}px`;
+  tooltip.style.top = `${window.scrollY + rect.bottom + 6}px`;
+
+  const collocation = document.createElement('span');
+  const ipa = document.createElement('span');
+  const meaning = document.createElement('span');
+
+  collocation.className = 'collocation';
+  collocation.textContent = entry.collocation;
+  ipa.className = 'ipa';
+  ipa.textContent = entry.ipa || '';
+  meaning.className = 'meaning';
+  meaning.textContent = entry.meaning || '';
+
+  tooltip.append(collocation, ipa, meaning);
+  tooltipRoot!.appendChild(tooltip);
+}
+
+function hideTooltip() {
+  if (tooltipRoot) {
+    tooltipRoot.innerHTML = '';
+  }
+}
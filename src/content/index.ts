@@ -1,18 +1,132 @@
 // Content script for capturing text selection
+import type { SelectionContextResponse } from '../shared/types/messages';
+import { isValidEnglishWord } from '../shared/utils/validation';
+import { HIGHLIGHT_SITES_KEY, isHighlightEnabled } from '../shared/utils/site-settings';
+import { showBubble, hideBubble, isInsideBubble } from './bubble';
+import { enableHighlighting, disableHighlighting } from './highlighter';
+
+const MAX_SENTENCE_LENGTH = 300;
+const MAX_BUBBLE_WORDS = 5;
+const BUBBLE_DELAY = 250; // Let a double-click finish before looking up
+const BLOCK_SELECTOR = 'p, li, td, th, dd, blockquote, figcaption, h1, h2, h3, h4, h5, h6, article, section, div';
+
 let selectedText = '';
+let selectionContext: SelectionContextResponse | null = null;
+let bubbleTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Highlight saved vocabulary unless switched off for this site
+updateHighlighting();
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'sync' && changes[HIGHLIGHT_SITES_KEY]) updateHighlighting();
+});
+
+// Listen for text selection (a double-click selects a word, so it lands here too)
+document.addEventListener('mouseup', (event) => {
+  if (isInsideBubble(event)) return;
 
-// Listen for text selection
-document.addEventListener('mouseup', () => {
   const selection = window.getSelection();
   selectedText = selection?.toString().trim() || '';
+  selectionContext = selectedText ? captureSelectionContext(selection!) : null;
+
+  clearTimeout(bubbleTimer);
+  bubbleTimer = setTimeout(() => maybeShowBubble(selection), BUBBLE_DELAY);
+});
+
+// Dismiss the bubble
+document.addEventListener('mousedown', (event) => {
+  if (!isInsideBubble(event)) hideBubble();
+});
+document.addEventListener('keydown', (event) => {
+  if (event.key === 'Escape') hideBubble();
 });
 
-// Listen for messages from popup
+// Listen for messages from popup and background
 chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   if (request.action === 'getSelectedText') {
     const selection = window.getSelection();
     const text = selection?.toString().trim() || '';
     sendResponse({ selectedText: text });
+  } else if (request.action === 'getSelectionContext') {
+    sendResponse(selectionContext);
   }
   return true;
 });
+
+/**
+ * Apply the per-site highlight preference
+ */
+async function updateHighlighting() {
+  if (!document.body) return;
+
+  if (await isHighlightEnabled(location.hostname)) {
+    await enableHighlighting();
+  } else {
+    disableHighlighting();
+  }
+}
+
+/**
+ * Show the lookup bubble for short English selections
+ */
+function maybeShowBubble(selection: Selection | null) {
+  if (!selection || selection.rangeCount === 0 || !selectedText) return;
+
+  const wordCount = selectedText.split(/\s+/).length;
+  if (wordCount > MAX_BUBBLE_WORDS || !isValidEnglishWord(selectedText)) return;
+
+  // Don't pop up while typing in form fields
+  const anchor = selection.anchorNode instanceof Element ? selection.anchorNode : selection.anchorNode?.parentElement;
+  if (anchor?.closest('input, textarea, [contenteditable=""], [contenteditable="true"]')) return;
+
+  showBubble(selectedText, selection.getRangeAt(0).getBoundingClientRect(), selectionContext);
+}
+
+/**
+ * Capture the sentence around the selection plus page details
+ */
+function captureSelectionContext(selection: Selection): SelectionContextResponse {
+  return {
+    text: selectedText,
+    sentence: selection.rangeCount > 0 ? extractSentence(selection.getRangeAt(0)) : undefined,
+    title: document.title,
+    url: location.href,
+    capturedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Extract the sentence containing the selected range from its enclosing block
+ */
+function extractSentence(range: Range): string | undefined {
+  const start = range.startContainer;
+  const element = start instanceof Element ? start : start.parentElement;
+  const block = element?.closest(BLOCK_SELECTOR);
+
+  if (!block) {
+    return undefined;
+  }
+
+  // Offset of the selection within the block's text
+  const before = document.createRange();
+  before.selectNodeContents(block);
+  before.setEnd(range.startContainer, range.startOffset);
+  const offset = before.toString().length;
+
+  const text = block.textContent || '';
+  const selectionEnd = offset + range.toString().length;
+
+  // Sentence boundaries: terminal punctuation followed by whitespace
+  const head = text.slice(0, offset);
+  const boundary = Math.max(head.lastIndexOf('. '), head.lastIndexOf('! '), head.lastIndexOf('? '));
+  const sentenceStart = boundary >= 0 ? boundary + 2 : 0;
+
+  const tail = text.slice(selectionEnd).search(/[.!?](\s|$)/);
+  const sentenceEnd = tail >= 0 ? selectionEnd + tail + 1 : text.length;
+
+  const sentence = text.slice(sentenceStart, sentenceEnd).replace(/\s+/g, ' ').trim();
+
+  if (!sentence) {
+    return undefined;
+  }
+  return sentence.length > MAX_SENTENCE_LENGTH ? `${sentence.slice(0, MAX_SENTENCE_LENGTH)}…` : sentence;
+}
@@ -0,0 +1,325 @@
+import { initI18n, t } from '../shared/i18n';
+import { showToast, UNDO_DURATION } from '../shared/utils/notifications';
+import { escapeHtml } from '../shared/utils/html';
+import { initDatabase } from '../shared/cache/db';
+import { ACTIVE_PROFILE_KEY } from '../shared/profiles/active';
+import {
+  syncMirror,
+  queryMirror,
+  getMirrorTags,
+  updateMirrorEntry,
+  deleteMirrorEntry,
+  getMirrorConflicts,
+  clearMirrorConflicts,
+} from '../shared/cache/mirror';
+import type { MirrorSort } from '../shared/cache/mirror';
+import { generateCollocationsByWord } from '../shared/api/ai';
+import { backupCollocations, restoreBackup } from '../shared/cache/backups';
+import { syncOrQueue } from '../shared/sync/outbox';
+import { removeReviewCards } from '../shared/review/store';
+import type { CollocationChanges, LocalCollocation } from '../shared/types/models';
+import type { ReviewUpdatedRequest } from '../shared/types/messages';
+
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE = 200;
+
+// Initialize
+document.addEventListener('DOMContentLoaded', async () => {
+  await initI18n();
+  await initDatabase();
+  applyTranslations();
+  followProfileSwitch();
+  setupEventListeners();
+  await loadConflicts();
+  await render(); // Show the mirror right away, then pull changes from the server
+  await handleRefresh();
+});
+
+// Everything on the page belongs to the active profile; start over when it changes
+function followProfileSwitch() {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes[ACTIVE_PROFILE_KEY]) location.reload();
+  });
+}
+
+// DOM Elements
+const syncStatus = document.getElementById('syncStatus') as HTMLSpanElement;
+const refreshBtn = document.getElementById('refreshBtn') as HTMLButtonElement;
+const searchInput = document.getElementById('searchInput') as HTMLInputElement;
+const sortSelect = document.getElementById('sortSelect') as HTMLSelectElement;
+const tagSelect = document.getElementById('tagSelect') as HTMLSelectElement;
+const fromDate = document.getElementById('fromDate') as HTMLInputElement;
+const toDate = document.getElementById('toDate') as HTMLInputElement;
+const collocationRows = document.getElementById('collocationRows') as HTMLTableSectionElement;
+const emptyState = document.getElementById('emptyState') as HTMLDivElement;
+const pageInfo = document.getElementById('pageInfo') as HTMLSpanElement;
+const prevPageBtn = document.getElementById('prevPageBtn') as HTMLButtonElement;
+const nextPageBtn = document.getElementById('nextPageBtn') as HTMLButtonElement;
+const conflictPanel = document.getElementById('conflictPanel') as HTMLDivElement;
+const conflictList = document.getElementById('conflictList') as HTMLUListElement;
+const dismissConflictsBtn = document.getElementById('dismissConflictsBtn') as HTMLButtonElement;
+
+let page = 0;
+let rows: LocalCollocation[] = [];
+let searchTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Setup event listeners
+function setupEventListeners() {
+  refreshBtn.addEventListener('click', () => handleRefresh());
+  dismissConflictsBtn.addEventListener('click', async () => {
+    await clearMirrorConflicts();
+    await loadConflicts();
+  });
+  searchInput.addEventListener('input', () => {
+    clearTimeout(searchTimer);
+    searchTimer = setTimeout(resetAndRender, SEARCH_DEBOUNCE);
+  });
+  [sortSelect, tagSelect, fromDate, toDate].forEach(el => el.addEventListener('change', resetAndRender));
+  prevPageBtn.addEventListener('click', () => goToPage(page - 1));
+  nextPageBtn.addEventListener('click', () => goToPage(page + 1));
+  collocationRows.addEventListener('change', handleInlineEdit);
+  collocationRows.addEventListener('click', handleRowAction);
+}
+
+// Pull server changes into the mirror
+async function handleRefresh() {
+  refreshBtn.disabled = true;
+  syncStatus.textContent = t('manage.syncing');
+
+  try {
+    const result = await syncMirror();
+    syncStatus.textContent = t('manage.synced', { count: result.pulled });
+  } catch (error) {
+    syncStatus.textContent = t('manage.offline');
+    console.warn('Failed to refresh collocations:', error);
+  } finally {
+    refreshBtn.disabled = false;
+  }
+
+  await loadConflicts();
+  await loadTags();
+  await render();
+}
+
+// Edits that raced a change on the server, and which side was kept
+async function loadConflicts() {
+  const conflicts = await getMirrorConflicts();
+  conflictPanel.classList.toggle('hidden', conflicts.length === 0);
+
+  conflictList.innerHTML = conflicts.map(conflict => `
+    <li>
+      <span class="font-medium">${escapeHtml(conflict.collocation)}</span>:
+      ${t(conflict.serverAt === undefined ? 'manage.conflicts.deletedOnServer' : `manage.conflicts.${conflict.action}.${conflict.winner}`)}
+      <span class="text-gray-400">(${new Date(conflict.detectedAt).toLocaleString()})</span>
+    </li>
+  `).join('');
+}
+
+async function loadTags() {
+  const selected = tagSelect.value;
+  const tags = await getMirrorTags();
+
+  tagSelect.innerHTML = `<option value="">${t('manage.allTags')}</option>` +
+    tags.map(tag => `<option value="${escapeHtml(tag)}">${escapeHtml(tag)}</option>`).join('');
+  tagSelect.value = tags.includes(selected) ? selected : '';
+}
+
+function resetAndRender() {
+  page = 0;
+  render();
+}
+
+function goToPage(target: number) {
+  page = Math.max(0, target);
+  render();
+}
+
+// Render the current page of the filtered mirror
+async function render() {
+  const result = await queryMirror({
+    search: searchInput.value,
+    sort: sortSelect.value as MirrorSort,
+    tag: tagSelect.value || undefined,
+    // Local-time day bounds; the end day is included
+    from: fromDate.value ? new Date(`${fromDate.value}T00:00:00`) : undefined,
+    to: toDate.value ? new Date(`${toDate.value}T23:59:59.999`) : undefined,
+    offset: page * PAGE_SIZE,
+    limit: PAGE_SIZE,
+  });
+
+  // Deleting the last row of the last page
+  if (result.items.length === 0 && page > 0 && result.total > 0) {
+    page = Math.ceil(result.total / PAGE_SIZE) - 1;
+    return render();
+  }
+
+  rows = result.items;
+  emptyState.classList.toggle('hidden', rows.length > 0);
+
+  collocationRows.innerHTML = rows.map((card, index) => {
+    const editable = !!card.id;
+    const readonly = editable ? '' : `readonly title="${escapeHtml(t('manage.noId'))}"`;
+    const disabled = editable ? '' : 'disabled';
+
+    return `
+      <tr data-index="${index}" class="align-top">
+        <td class="p-3">
+          <div class="font-semibold">${escapeHtml(card.collocation)}</div>
+          ${card.headword ? `<div class="text-xs text-gray-500 dark:text-gray-400">${escapeHtml(card.headword)}</div>` : ''}
+        </td>
+        <td class="p-3 w-48">
+          <input class="w-full bg-transparent border border-transparent hover:border-gray-300 focus:border-primary-500 rounded px-1"
+                 data-field="ipa" value="${escapeHtml(card.ipa || '')}" ${readonly}>
+        </td>
+        <td class="p-3">
+          <input class="w-full bg-transparent border border-transparent hover:border-gray-300 focus:border-primary-500 rounded px-1"
+                 data-field="meaning" value="${escapeHtml(card.meaning || '')}" ${readonly}>
+        </td>
+        <td class="p-3 text-xs text-gray-600 dark:text-gray-400">${(card.tags || []).map(escapeHtml).join(', ')}</td>
+        <td class="p-3 text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">${card.createdAt ? card.createdAt.toLocaleDateString() : ''}</td>
+        <td class="p-3 whitespace-nowrap">
+          <button class="text-primary-600 hover:text-primary-700 disabled:opacity-40" data-action="regenerate" title="${t('manage.regenerate')}" ${disabled}>🔄</button>
+          <button class="text-red-500 hover:text-red-700 disabled:opacity-40 ml-2" data-action="delete" title="${t('manage.delete')}" ${disabled}>🗑️</button>
+        </td>
+      </tr>
+    `;
+  }).join('');
+
+  const start = result.total === 0 ? 0 : page * PAGE_SIZE + 1;
+  pageInfo.textContent = t('manage.pageInfo', { start, end: page * PAGE_SIZE + rows.length, total: result.total });
+  prevPageBtn.disabled = page === 0;
+  nextPageBtn.disabled = (page + 1) * PAGE_SIZE >= result.total;
+}
+
+// Save IPA / meaning edits when an input loses focus
+async function handleInlineEdit(e: Event) {
+  const input = e.target as HTMLInputElement;
+  const card = getRowCard(input);
+  const field = input.dataset.field as 'ipa' | 'meaning' | undefined;
+  if (!card || !field) return;
+
+  const value = input.value.trim();
+  if (value === (card[field] || '')) return;
+
+  await saveChanges(card, { [field]: value });
+}
+
+// Row buttons
+async function handleRowAction(e: Event) {
+  const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+  const card = button && getRowCard(button);
+  if (!button || !card) return;
+
+  button.disabled = true;
+  try {
+    if (button.dataset.action === 'delete') {
+      await handleDelete(card);
+    } else {
+      await handleRegenerate(card);
+    }
+  } finally {
+    button.disabled = false;
+  }
+}
+
+async function handleDelete(card: LocalCollocation) {
+  if (!confirm(t('manage.deleteConfirm', { collocation: card.collocation }))) return;
+
+  try {
+    const backup = await backupCollocations([card]);
+    await deleteMirrorEntry(card.key);
+    const outcome = await syncOrQueue('delete', { id: card.id });
+    await removeReviewCards([card.collocation]);
+    notifyReviewUpdated();
+
+    showToast(outcome.queued ? 'warning' : 'success', t(outcome.queued ? 'popup.sync.queued' : 'manage.deleted'), {
+      duration: UNDO_DURATION,
+      action: { label: t('manage.undo'), onClick: () => handleUndoDelete(backup.id) },
+    });
+  } catch (error) {
+    showToast('error', t('manage.saveFailed'));
+    console.error(error);
+  }
+
+  await loadTags();
+  await render();
+}
+
+// Re-upload a deleted card, then refresh to pick up its new id
+async function handleUndoDelete(backupId: string) {
+  try {
+    const outcome = await restoreBackup(backupId);
+    notifyReviewUpdated();
+    showToast(outcome.queued ? 'warning' : 'success', t(outcome.queued ? 'popup.sync.queued' : 'manage.restored'));
+  } catch (error) {
+    showToast('error', t('manage.saveFailed'));
+    console.error(error);
+  }
+
+  await handleRefresh();
+}
+
+// Ask the AI again for this collocation and replace its details
+async function handleRegenerate(card: LocalCollocation) {
+  showToast('loading', t('manage.regenerating', { collocation: card.collocation }));
+
+  try {
+    const [result] = await generateCollocationsByWord([card.collocation]);
+    if (!result || result.error || result.collocations.length === 0) {
+      throw new Error(result?.error || 'No collocations returned');
+    }
+
+    const target = card.collocation.toLowerCase();
+    const fresh = result.collocations.find(c => c.collocation.toLowerCase() === target) || result.collocations[0];
+
+    await saveChanges(card, {
+      partOfSpeech: fresh.partOfSpeech,
+      ipa: fresh.ipa,
+      meaning: fresh.meaning,
+      synonyms: fresh.synonyms,
+      antonyms: fresh.antonyms,
+      examples: fresh.examples,
+      cefrLevel: fresh.cefrLevel,
+    });
+  } catch (error) {
+    showToast('error', t('manage.regenerateFailed'));
+    console.error(error);
+  }
+}
+
+// Update the mirror, then the server (or the outbox when offline)
+async function saveChanges(card: LocalCollocation, changes: CollocationChanges) {
+  try {
+    await updateMirrorEntry(card.key, changes);
+    const outcome = await syncOrQueue('update', { id: card.id, changes });
+    showToast(outcome.queued ? 'warning' : 'success', t(outcome.queued ? 'popup.sync.queued' : 'manage.saved'));
+  } catch (error) {
+    showToast('error', t('manage.saveFailed'));
+    console.error(error);
+  }
+
+  await render();
+}
+
+// Let the service worker refresh the review badge
+function notifyReviewUpdated() {
+  const request: ReviewUpdatedRequest = { action: 'reviewUpdated' };
+  chrome.runtime.sendMessage(request).catch(() => undefined);
+}
+
+function getRowCard(el: HTMLElement): LocalCollocation | undefined {
+  const row = el.closest<HTMLTableRowElement>('tr[data-index]');
+  return row ? rows[Number(row.dataset.index)] : undefined;
+}
+
+// Apply translations
+function applyTranslations() {
+  document.querySelectorAll('[data-i18n]').forEach(el => {
+    const key = el.getAttribute('data-i18n')!;
+    el.textContent = t(key);
+  });
+  document.querySelectorAll('[data-i18n-placeholder]').forEach(el => {
+    const key = el.getAttribute('data-i18n-placeholder')!;
+    (el as HTMLInputElement).placeholder = t(key);
+  });
+}
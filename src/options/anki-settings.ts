@@ -0,0 +1,170 @@
+import {
+  DEFAULT_ANKI_SETTINGS,
+  exportToAnki,
+  getAnkiSettings,
+  getAnkiVersion,
+  getDeckNames,
+  getNoteTypeFields,
+  getNoteTypeNames,
+  parseFieldList,
+  saveAnkiSettings,
+} from '../shared/api/anki';
+import type { AnkiSettings } from '../shared/api/anki';
+import { getCollocations } from '../shared/api/server';
+
+type StatusCallback = (type: 'success' | 'error' | 'warning', message: string) => void;
+
+const ankiEndpointInput = document.getElementById('ankiEndpoint') as HTMLInputElement;
+const ankiDeckInput = document.getElementById('ankiDeck') as HTMLInputElement;
+const ankiDeckOptions = document.getElementById('ankiDeckOptions') as HTMLDataListElement;
+const ankiNoteTypeInput = document.getElementById('ankiNoteType') as HTMLInputElement;
+const ankiNoteTypeOptions = document.getElementById('ankiNoteTypeOptions') as HTMLDataListElement;
+const ankiTagsInput = document.getElementById('ankiTags') as HTMLInputElement;
+const ankiFieldMap = document.getElementById('ankiFieldMap') as HTMLDivElement;
+const ankiConnectBtn = document.getElementById('ankiConnectBtn') as HTMLButtonElement;
+const ankiExportBtn = document.getElementById('ankiExportBtn') as HTMLButtonElement;
+const ankiResults = document.getElementById('ankiResults') as HTMLDivElement;
+
+let fieldMap: AnkiSettings['fieldMap'] = {};
+let showStatus: StatusCallback;
+
+/**
+ * Load Anki settings into the form
+ * @param onStatus - Reports results of Anki actions
+ */
+export async function initAnkiSettings(onStatus: StatusCallback): Promise<void> {
+  showStatus = onStatus;
+
+  const settings = await getAnkiSettings();
+  ankiEndpointInput.value = settings.endpoint;
+  ankiDeckInput.value = settings.deck;
+  ankiNoteTypeInput.value = settings.noteType;
+  ankiTagsInput.value = settings.tags.join(', ');
+  fieldMap = settings.fieldMap;
+  renderFieldMap(Object.keys(fieldMap));
+
+  ankiConnectBtn.addEventListener('click', handleConnect);
+  ankiExportBtn.addEventListener('click', handleExport);
+  ankiNoteTypeInput.addEventListener('change', () => loadNoteTypeFields().catch(() => undefined));
+}
+
+/**
+ * AnkiConnect endpoint currently entered, for the host permission request
+ */
+export function getAnkiEndpoint(): string {
+  return ankiEndpointInput.value.trim() || DEFAULT_ANKI_SETTINGS.endpoint;
+}
+
+/**
+ * Save the Anki settings shown in the form
+ */
+export async function saveAnkiEditorSettings(): Promise<void> {
+  await saveAnkiSettings(readSettings());
+}
+
+// Read the settings currently shown in the form
+function readSettings(): AnkiSettings {
+  const map: AnkiSettings['fieldMap'] = {};
+  ankiFieldMap.querySelectorAll<HTMLInputElement>('input[data-field]').forEach(input => {
+    map[input.dataset.field!] = parseFieldList(input.value);
+  });
+
+  return {
+    endpoint: getAnkiEndpoint(),
+    deck: ankiDeckInput.value.trim() || DEFAULT_ANKI_SETTINGS.deck,
+    noteType: ankiNoteTypeInput.value.trim() || DEFAULT_ANKI_SETTINGS.noteType,
+    fieldMap: map,
+    tags: ankiTagsInput.value.split(',').map(tag => tag.trim()).filter(Boolean),
+  };
+}
+
+// Load decks, note types and note fields from Anki
+async function handleConnect() {
+  ankiConnectBtn.disabled = true;
+  const endpoint = getAnkiEndpoint();
+
+  try {
+    const version = await getAnkiVersion(endpoint);
+    const [decks, noteTypes] = await Promise.all([getDeckNames(endpoint), getNoteTypeNames(endpoint)]);
+
+    fillOptions(ankiDeckOptions, decks);
+    fillOptions(ankiNoteTypeOptions, noteTypes);
+    await loadNoteTypeFields();
+
+    showStatus('success', `Connected to AnkiConnect v${version}`);
+  } catch (error) {
+    showStatus('error', 'Cannot reach AnkiConnect. Is Anki running with the add-on installed?');
+    console.error(error);
+  } finally {
+    ankiConnectBtn.disabled = false;
+  }
+}
+
+// Show one mapping row per field of the selected note type
+async function loadNoteTypeFields() {
+  fieldMap = readSettings().fieldMap;
+  const fields = await getNoteTypeFields(getAnkiEndpoint(), ankiNoteTypeInput.value.trim());
+  renderFieldMap(fields);
+}
+
+function renderFieldMap(fields: string[]) {
+  ankiFieldMap.innerHTML = '';
+
+  for (const field of fields) {
+    const row = document.createElement('div');
+    row.className = 'grid grid-cols-3 gap-2 items-center';
+
+    const label = document.createElement('label');
+    label.className = 'text-sm font-medium truncate';
+    label.textContent = field;
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'input col-span-2';
+    input.dataset.field = field;
+    input.placeholder = 'e.g. ipa, meaning';
+    input.value = (fieldMap[field] || []).join(', ');
+
+    row.append(label, input);
+    ankiFieldMap.appendChild(row);
+  }
+}
+
+function fillOptions(list: HTMLDataListElement, values: string[]) {
+  list.innerHTML = '';
+  for (const value of values) {
+    const option = document.createElement('option');
+    option.value = value;
+    list.appendChild(option);
+  }
+}
+
+// Send every saved collocation to Anki and list what happened to each note
+async function handleExport() {
+  ankiExportBtn.disabled = true;
+  ankiExportBtn.textContent = 'Sending...';
+  ankiResults.innerHTML = '';
+
+  try {
+    const collocations = await getCollocations();
+    const result = await exportToAnki(collocations, readSettings());
+
+    for (const note of result.results) {
+      const row = document.createElement('div');
+      const icon = { added: '✅', duplicate: '⏭️', failed: '❌' }[note.status];
+      row.className = note.status === 'failed' ? 'text-red-600' : '';
+      row.textContent = `${icon} ${note.collocation}${note.error ? ` — ${note.error}` : ''}`;
+      ankiResults.appendChild(row);
+    }
+    ankiResults.classList.toggle('hidden', result.results.length === 0);
+
+    const summary = `Added ${result.added}, skipped ${result.duplicates} duplicates, ${result.failed} failed`;
+    showStatus(result.failed > 0 ? 'warning' : 'success', summary);
+  } catch (error) {
+    showStatus('error', `Anki export failed: ${error instanceof Error ? error.message : String(error)}`);
+    console.error(error);
+  } finally {
+    ankiExportBtn.disabled = false;
+    ankiExportBtn.textContent = '🃏 Send all to Anki';
+  }
+}
@@ -0,0 +1,138 @@
+import { getAuthSettings, login, logout, useApiToken } from '../shared/api/auth';
+import type { AuthMethod } from '../shared/api/auth';
+import { validateServerUrl } from '../shared/utils/validation';
+import { UnsyncedChangesError } from '../shared/utils/error-handler';
+import { flushSyncQueue } from '../shared/sync/outbox';
+
+type StatusCallback = (type: 'success' | 'error' | 'warning', message: string) => void;
+
+const authMethodSelect = document.getElementById('authMethod') as HTMLSelectElement;
+const authPasswordFields = document.getElementById('authPasswordFields') as HTMLDivElement;
+const authTokenFields = document.getElementById('authTokenFields') as HTMLDivElement;
+const authUsernameInput = document.getElementById('authUsername') as HTMLInputElement;
+const authPasswordInput = document.getElementById('authPassword') as HTMLInputElement;
+const authApiTokenInput = document.getElementById('authApiToken') as HTMLInputElement;
+const loginBtn = document.getElementById('loginBtn') as HTMLButtonElement;
+const logoutBtn = document.getElementById('logoutBtn') as HTMLButtonElement;
+const authStatus = document.getElementById('authStatus') as HTMLParagraphElement;
+
+let showStatus: StatusCallback;
+let getServerUrl: () => string;
+let savedMethod: AuthMethod = 'none';
+
+/**
+ * Load the sign-in method and wire the sign-in buttons
+ * @param onStatus - Reports results of sign-in actions
+ * @param serverUrl - Server URL currently entered
+ */
+export async function initAuthSettings(onStatus: StatusCallback, serverUrl: () => string): Promise<void> {
+  showStatus = onStatus;
+  getServerUrl = serverUrl;
+
+  const settings = await getAuthSettings();
+  authMethodSelect.value = settings.method;
+  authUsernameInput.value = settings.username || '';
+  showMethodFields();
+  await renderAuthStatus();
+
+  authMethodSelect.addEventListener('change', showMethodFields);
+  loginBtn.addEventListener('click', handleLogin);
+  logoutBtn.addEventListener('click', handleLogout);
+}
+
+/**
+ * Check the sign-in fields before saving
+ * Synchronous so the save click keeps its user gesture for permission requests
+ * @returns Error message, or null if valid
+ */
+export function validateAuthFields(): string | null {
+  const method = authMethodSelect.value as AuthMethod;
+
+  if (method === 'token' && !authApiTokenInput.value.trim() && savedMethod !== 'token') {
+    return 'Please enter an API token';
+  }
+  return null;
+}
+
+/**
+ * Apply the sign-in method chosen in the form
+ * Password sign-in happens through the Sign in button, not on save
+ */
+export async function saveAuthEditorSettings(): Promise<void> {
+  const method = authMethodSelect.value as AuthMethod;
+  const token = authApiTokenInput.value.trim();
+
+  if (method === 'token' && token) {
+    await withUnsentChangesFlushed(() => useApiToken(getServerUrl(), token));
+    authApiTokenInput.value = '';
+  } else if (method === 'none' && savedMethod !== 'none') {
+    await logout();
+  }
+
+  await renderAuthStatus();
+}
+
+function showMethodFields() {
+  authPasswordFields.classList.toggle('hidden', authMethodSelect.value !== 'password');
+  authTokenFields.classList.toggle('hidden', authMethodSelect.value !== 'token');
+}
+
+async function renderAuthStatus() {
+  const settings = await getAuthSettings();
+  savedMethod = settings.method;
+
+  authStatus.textContent =
+    settings.method === 'password' ? `Signed in as ${settings.username}` :
+    settings.method === 'token' ? `Using a personal API token for ${settings.username}` :
+    'Not signed in; requests are sent without credentials';
+}
+
+async function handleLogin() {
+  const serverUrl = getServerUrl();
+  const username = authUsernameInput.value.trim();
+  const password = authPasswordInput.value;
+
+  const urlValidation = validateServerUrl(serverUrl);
+  if (!urlValidation.valid) {
+    showStatus('error', urlValidation.error!);
+    return;
+  }
+  if (!username || !password) {
+    showStatus('error', 'Please enter a username and password');
+    return;
+  }
+
+  loginBtn.disabled = true;
+  try {
+    const user = await withUnsentChangesFlushed(() => login(serverUrl, username, password));
+    showStatus('success', `Signed in as ${user}`);
+  } catch (error) {
+    showStatus('error', `Sign-in failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    authPasswordInput.value = '';
+    loginBtn.disabled = false;
+    await renderAuthStatus();
+  }
+}
+
+// Switching users is refused while the outbox holds changes; offer to upload
+// them with the current credentials and try once more
+async function withUnsentChangesFlushed<T>(signIn: () => Promise<T>): Promise<T> {
+  try {
+    return await signIn();
+  } catch (error) {
+    if (!(error instanceof UnsyncedChangesError) || !confirm(`${error.message}.\n\nUpload them now?`)) {
+      throw error;
+    }
+    await flushSyncQueue();
+    return signIn();
+  }
+}
+
+async function handleLogout() {
+  await logout();
+  authMethodSelect.value = 'none';
+  showMethodFields();
+  await renderAuthStatus();
+  showStatus('success', 'Signed out');
+}
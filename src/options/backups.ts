@@ -0,0 +1,72 @@
+import { deleteBackup, getBackups, restoreBackup } from '../shared/cache/backups';
+import type { CollocationBackup } from '../shared/types/models';
+
+type StatusCallback = (type: 'success' | 'error' | 'warning', message: string) => void;
+
+const backupList = document.getElementById('backupList') as HTMLDivElement;
+
+let showStatus: StatusCallback;
+
+/**
+ * List stored backups with restore and delete buttons
+ * @param onStatus - Reports results of backup actions
+ */
+export async function initBackups(onStatus: StatusCallback): Promise<void> {
+  showStatus = onStatus;
+  backupList.addEventListener('click', handleBackupAction);
+  await renderBackups();
+}
+
+async function renderBackups() {
+  const backups = await getBackups();
+
+  if (backups.length === 0) {
+    backupList.innerHTML = '<p class="text-xs text-gray-500">No backups yet.</p>';
+    return;
+  }
+
+  backupList.innerHTML = backups.map(backup => `
+    <div class="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700">
+      <div>
+        <div class="font-medium">${new Date(backup.createdAt).toLocaleString()}</div>
+        <div class="text-xs text-gray-500">${describeBackup(backup)}</div>
+      </div>
+      <div class="flex gap-2 shrink-0">
+        <button class="btn btn-secondary text-xs" data-action="restore" data-id="${backup.id}">♻️ Restore</button>
+        <button class="btn btn-ghost text-xs" data-action="delete" data-id="${backup.id}">🗑️</button>
+      </div>
+    </div>
+  `).join('');
+}
+
+function describeBackup(backup: CollocationBackup): string {
+  const count = `${backup.collocations.length} collocation${backup.collocations.length === 1 ? '' : 's'}`;
+  const reason = backup.reason === 'deleteAll' ? 'before Delete All' : 'before deleting';
+  return `${count}, ${reason}${backup.complete ? '' : ' (from the offline copy, may be incomplete)'}`;
+}
+
+async function handleBackupAction(e: Event) {
+  const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+  if (!button) return;
+
+  const id = button.dataset.id!;
+  button.disabled = true;
+
+  try {
+    if (button.dataset.action === 'restore') {
+      const outcome = await restoreBackup(id);
+      if (outcome.queued) {
+        showStatus('warning', 'Server unreachable. The restore will be synced when it is back');
+      } else {
+        showStatus('success', `Restored ${outcome.result?.insertedCount ?? 0} collocations`);
+      }
+    } else if (confirm('Delete this backup? It cannot be recovered.')) {
+      await deleteBackup(id);
+      await renderBackups();
+    }
+  } catch (error) {
+    showStatus('error', `Backup action failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    button.disabled = false;
+  }
+}
@@ -1,40 +1,128 @@
 import { initI18n } from '../shared/i18n';
-import { validateServerUrl, validateApiKey } from '../shared/utils/validation';
-import { storeApiKey, retrieveApiKey } from '../shared/security/keychain';
+import { validateServerUrl, validateApiKey, isValidServerUrl } from '../shared/utils/validation';
+import { storeProviderApiKey, retrieveProviderApiKey } from '../shared/security/keychain';
 import { testConnection } from '../shared/api/server';
-import { testAIConnection } from '../shared/api/gemini';
+import { UnsyncedChangesError } from '../shared/utils/error-handler';
+import { testAIConnection } from '../shared/api/ai';
+import {
+  AI_PROVIDER_IDS,
+  getAIProviderConfig,
+  saveAIProviderConfig,
+} from '../shared/api/providers';
+import type { AIProviderConfig, AIProviderId } from '../shared/api/providers';
+import { initPromptEditor, savePromptEditorSettings } from './prompt-editor';
+import { initAnkiSettings, saveAnkiEditorSettings, getAnkiEndpoint } from './anki-settings';
+import { initBackups } from './backups';
+import { initProfiles } from './profiles';
+import { selectActiveDatabase } from '../shared/cache/db';
+import { ACTIVE_PROFILE_KEY, SERVER_URL_KEY, activeSettingKey, getActiveServerUrl } from '../shared/profiles/active';
+import { initAuthSettings, saveAuthEditorSettings, validateAuthFields } from './auth-settings';
 
 const serverUrlInput = document.getElementById('serverUrl') as HTMLInputElement;
+const aiProviderSelect = document.getElementById('aiProvider') as HTMLSelectElement;
+const aiModelInput = document.getElementById('aiModel') as HTMLInputElement;
+const aiBaseUrlInput = document.getElementById('aiBaseUrl') as HTMLInputElement;
+const aiDailyRequestsInput = document.getElementById('aiDailyRequests') as HTMLInputElement;
+const aiDailyTokensInput = document.getElementById('aiDailyTokens') as HTMLInputElement;
+const apiKeyField = document.getElementById('apiKeyField') as HTMLDivElement;
+const apiKeyLabel = document.getElementById('apiKeyLabel') as HTMLLabelElement;
+const apiKeyHint = document.getElementById('apiKeyHint') as HTMLParagraphElement;
 const apiKeyInput = document.getElementById('apiKey') as HTMLInputElement;
+const chunkSizeInput = document.getElementById('chunkSize') as HTMLInputElement;
 const themeSelect = document.getElementById('theme') as HTMLSelectElement;
 const saveBtn = document.getElementById('saveBtn') as HTMLButtonElement;
 const testBtn = document.getElementById('testBtn') as HTMLButtonElement;
 const statusDiv = document.getElementById('status') as HTMLDivElement;
 
+// Provider settings being edited; switching provider keeps unsaved edits
+let providerConfig: AIProviderConfig;
+const apiKeys: Partial<Record<AIProviderId, string>> = {};
+let shownProvider: AIProviderId = 'gemini';
+
 document.addEventListener('DOMContentLoaded', async () => {
   await initI18n();
+  await selectActiveDatabase();
+  await initProfiles(showStatus);
   await loadSettings();
+  await initAuthSettings(showStatus, () => serverUrlInput.value.trim());
+  await initPromptEditor(showStatus);
+  await initAnkiSettings(showStatus);
+  await initBackups(showStatus);
   setupEventListeners();
 });
 
 async function loadSettings() {
-  const config = await chrome.storage.sync.get(['serverUrl', 'theme']);
-  const apiKey = await retrieveApiKey();
+  const config = await chrome.storage.sync.get(['theme', 'chunkSize']);
+  const serverUrl = await getActiveServerUrl();
+  providerConfig = await getAIProviderConfig();
+
+  for (const id of AI_PROVIDER_IDS) {
+    apiKeys[id] = (await retrieveProviderApiKey(id)) || '';
+  }
 
-  if (config.serverUrl) serverUrlInput.value = config.serverUrl;
-  if (apiKey) apiKeyInput.value = apiKey;
+  if (serverUrl) serverUrlInput.value = serverUrl;
+  if (config.chunkSize) chunkSizeInput.value = String(config.chunkSize);
   if (config.theme) themeSelect.value = config.theme;
+
+  aiProviderSelect.value = providerConfig.active;
+  showProvider(providerConfig.active);
 }
 
 function setupEventListeners() {
+  // The form shows the active profile's settings; reload when another page switches it
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes[ACTIVE_PROFILE_KEY]) location.reload();
+  });
   saveBtn.addEventListener('click', handleSave);
   testBtn.addEventListener('click', handleTest);
+  aiProviderSelect.addEventListener('change', () => {
+    stashProviderFields();
+    showProvider(aiProviderSelect.value as AIProviderId);
+  });
+}
+
+// Fill the provider fields for the selected provider
+function showProvider(id: AIProviderId) {
+  const settings = providerConfig.providers[id];
+  shownProvider = id;
+
+  aiModelInput.value = settings.model;
+  aiBaseUrlInput.value = settings.baseUrl;
+  aiDailyRequestsInput.value = settings.dailyRequestLimit ? String(settings.dailyRequestLimit) : '';
+  aiDailyTokensInput.value = settings.dailyTokenLimit ? String(settings.dailyTokenLimit) : '';
+  apiKeyInput.value = apiKeys[id] || '';
+
+  apiKeyField.classList.toggle('hidden', id === 'ollama');
+  apiKeyHint.classList.toggle('hidden', id !== 'gemini');
+  apiKeyLabel.textContent = id === 'gemini' ? 'Google AI API Key:' : 'API Key (optional):';
+  apiKeyInput.placeholder = id === 'gemini' ? 'AIza...' : 'sk-...';
+}
+
+// Keep edits to the provider fields before switching provider or saving
+function stashProviderFields() {
+  providerConfig.providers[shownProvider] = {
+    model: aiModelInput.value.trim(),
+    baseUrl: aiBaseUrlInput.value.trim(),
+    dailyRequestLimit: parseLimit(aiDailyRequestsInput.value),
+    dailyTokenLimit: parseLimit(aiDailyTokensInput.value),
+  };
+  apiKeys[shownProvider] = apiKeyInput.value.trim();
+}
+
+// Blank or invalid means no limit (0, so the provider default does not come back)
+function parseLimit(value: string): number {
+  const limit = parseInt(value, 10);
+  return limit > 0 ? limit : 0;
 }
 
 async function handleSave() {
+  stashProviderFields();
+
   const serverUrl = serverUrlInput.value.trim();
-  const apiKey = apiKeyInput.value.trim();
   const theme = themeSelect.value;
+  const chunkSize = parseInt(chunkSizeInput.value, 10) || 10;
+  const active = aiProviderSelect.value as AIProviderId;
+  const settings = providerConfig.providers[active];
 
   const urlValidation = validateServerUrl(serverUrl);
   if (!urlValidation.valid) {
@@ -42,38 +130,89 @@ async function handleSave() {
     return;
   }
 
-  const apiValidation = validateApiKey(apiKey);
-  if (!apiValidation.valid) {
-    showStatus('error', apiValidation.error!);
+  if (!settings.model) {
+    showStatus('error', 'Please enter a model name');
+    return;
+  }
+
+  if (!isValidServerUrl(settings.baseUrl)) {
+    showStatus('error', 'Invalid AI base URL');
+    return;
+  }
+
+  if (active === 'gemini') {
+    const apiValidation = validateApiKey(apiKeys.gemini || '');
+    if (!apiValidation.valid) {
+      showStatus('error', apiValidation.error!);
+      return;
+    }
+  }
+
+  if (!isValidServerUrl(getAnkiEndpoint())) {
+    showStatus('error', 'Invalid AnkiConnect URL');
+    return;
+  }
+
+  const authError = validateAuthFields();
+  if (authError) {
+    showStatus('error', authError);
+    return;
+  }
+
+  // Must run before any await so the click still counts as a user gesture
+  const granted = await requestHostPermission([serverUrl, settings.baseUrl, getAnkiEndpoint()]);
+  if (!granted) {
+    showStatus('error', 'Permission to access the server, AI base URL or AnkiConnect was denied');
     return;
   }
 
   try {
-    await chrome.storage.sync.set({ serverUrl, theme });
-    await storeApiKey(apiKey);
+    providerConfig.active = active;
+    await chrome.storage.sync.set({ [await activeSettingKey(SERVER_URL_KEY)]: serverUrl, theme, chunkSize });
+    await saveAIProviderConfig(providerConfig);
+    await savePromptEditorSettings();
+    await saveAnkiEditorSettings();
+    await saveAuthEditorSettings();
+
+    for (const id of AI_PROVIDER_IDS) {
+      if (apiKeys[id]) {
+        await storeProviderApiKey(id, apiKeys[id]!);
+      }
+    }
+
     showStatus('success', 'Settings saved successfully!');
   } catch (error) {
-    showStatus('error', 'Failed to save settings');
+    showStatus('error', error instanceof UnsyncedChangesError ? error.message : 'Failed to save settings');
     console.error(error);
   }
 }
 
+// Ask for access to every configured host; the manifest only grants Gemini and localhost,
+// so other servers would depend on their own CORS headers
+function requestHostPermission(urls: string[]): Promise<boolean> {
+  return chrome.permissions.request({ origins: urls.map(url => `${new URL(url).origin}/*`) });
+}
+
 async function handleTest() {
   testBtn.disabled = true;
   testBtn.textContent = 'Testing...';
 
+  stashProviderFields();
+  const active = aiProviderSelect.value as AIProviderId;
+
   try {
-    const serverOk = await testConnection();
-    const aiOk = await testAIConnection();
+    const server = await testConnection();
+    const aiOk = await testAIConnection(active, providerConfig.providers[active]);
+    const serverVersion = server.capabilities?.version ? ` (server ${server.capabilities.version})` : '';
 
-    if (serverOk && aiOk) {
-      showStatus('success', '✅ All connections successful!');
-    } else if (serverOk) {
-      showStatus('warning', '⚠️ Server OK, but AI API failed');
+    if (server.ok && aiOk) {
+      showStatus('success', `✅ All connections successful!${serverVersion}`);
+    } else if (server.ok) {
+      showStatus('warning', `⚠️ Server OK${serverVersion}, but AI API failed`);
     } else if (aiOk) {
-      showStatus('warning', '⚠️ AI API OK, but server failed');
+      showStatus('warning', `⚠️ AI API OK, but server failed: ${server.error}`);
     } else {
-      showStatus('error', '❌ Both connections failed');
+      showStatus('error', `❌ Both connections failed. Server: ${server.error}`);
     }
   } catch (error) {
     showStatus('error', 'Connection test failed');
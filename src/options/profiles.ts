@@ -0,0 +1,110 @@
+import {
+  DEFAULT_PROFILE_ID,
+  createProfile,
+  deleteProfile,
+  getActiveProfileId,
+  getProfileSettings,
+  getProfiles,
+  renameProfile,
+  switchProfile,
+} from '../shared/profiles/store';
+import { escapeHtml } from '../shared/utils/html';
+
+type StatusCallback = (type: 'success' | 'error' | 'warning', message: string) => void;
+
+const profileList = document.getElementById('profileList') as HTMLDivElement;
+const newProfileNameInput = document.getElementById('newProfileName') as HTMLInputElement;
+const addProfileBtn = document.getElementById('addProfileBtn') as HTMLButtonElement;
+
+let showStatus: StatusCallback;
+
+/**
+ * List profiles with switch, rename and delete buttons
+ * @param onStatus - Reports results of profile actions
+ */
+export async function initProfiles(onStatus: StatusCallback): Promise<void> {
+  showStatus = onStatus;
+  profileList.addEventListener('click', handleProfileAction);
+  addProfileBtn.addEventListener('click', handleAddProfile);
+  newProfileNameInput.addEventListener('keydown', e => {
+    if (e.key === 'Enter') handleAddProfile();
+  });
+  await renderProfiles();
+}
+
+async function renderProfiles() {
+  const [profiles, activeId] = await Promise.all([getProfiles(), getActiveProfileId()]);
+  const settings = await Promise.all(profiles.map(profile => getProfileSettings(profile.id)));
+
+  profileList.innerHTML = profiles.map((profile, index) => {
+    const active = profile.id === activeId;
+    return `
+      <div class="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-50 dark:bg-gray-900 border ${active ? 'border-primary-400' : 'border-gray-200 dark:border-gray-700'}">
+        <div class="min-w-0">
+          <div class="font-medium truncate">${escapeHtml(profile.name)}</div>
+          <div class="text-xs text-gray-500 truncate">${active ? 'Active · ' : ''}${escapeHtml(settings[index].serverUrl || 'No server URL')}</div>
+        </div>
+        <div class="flex gap-2 shrink-0">
+          ${active ? '' : `<button class="btn btn-secondary text-xs" data-action="switch" data-id="${profile.id}">🔀 Switch</button>`}
+          <button class="btn btn-ghost text-xs" data-action="rename" data-id="${profile.id}">✏️</button>
+          ${active || profile.id === DEFAULT_PROFILE_ID ? '' : `<button class="btn btn-ghost text-xs" data-action="delete" data-id="${profile.id}">🗑️</button>`}
+        </div>
+      </div>
+    `;
+  }).join('');
+}
+
+async function handleAddProfile() {
+  const name = newProfileNameInput.value.trim();
+  if (!name) {
+    showStatus('error', 'Please enter a profile name');
+    return;
+  }
+
+  addProfileBtn.disabled = true;
+  try {
+    await createProfile(name);
+    newProfileNameInput.value = '';
+    await renderProfiles();
+    showStatus('success', `Profile "${name}" created`);
+  } catch (error) {
+    showStatus('error', `Failed to create profile: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    addProfileBtn.disabled = false;
+  }
+}
+
+async function handleProfileAction(e: Event) {
+  const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+  if (!button) return;
+
+  const id = button.dataset.id!;
+  const profile = (await getProfiles()).find(p => p.id === id);
+  if (!profile) return;
+
+  button.disabled = true;
+  try {
+    if (button.dataset.action === 'switch') {
+      await switchProfile(id);
+      // The form below still shows the old profile's settings
+      location.reload();
+      return;
+    }
+
+    if (button.dataset.action === 'rename') {
+      const name = prompt('Profile name:', profile.name)?.trim();
+      if (name && name !== profile.name) {
+        await renameProfile(id, name);
+        await renderProfiles();
+      }
+    } else if (confirm(`Delete profile "${profile.name}"? Its queue, cache and saved sign-in are removed.`)) {
+      await deleteProfile(id);
+      await renderProfiles();
+      showStatus('success', `Profile "${profile.name}" deleted`);
+    }
+  } catch (error) {
+    showStatus('error', `Profile action failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    button.disabled = false;
+  }
+}
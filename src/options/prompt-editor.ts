@@ -0,0 +1,165 @@
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_PROMPT_SETTINGS,
+  getAllTemplates,
+  getPromptSettings,
+  savePromptSettings,
+  saveCustomTemplate,
+  deleteCustomTemplate,
+  renderPromptTemplate,
+} from '../shared/prompts/templates';
+import type { PromptRegister, PromptSettings, PromptTemplate } from '../shared/prompts/templates';
+
+type StatusCallback = (type: 'success' | 'error' | 'warning', message: string) => void;
+
+const PREVIEW_WORDS = ['make a decision', 'running'];
+const PREVIEW_CONTEXTS = { running: 'She has been running a small bakery since 2019.' };
+
+const targetLanguageInput = document.getElementById('targetLanguage') as HTMLInputElement;
+const collocationCountInput = document.getElementById('collocationCount') as HTMLInputElement;
+const registerSelect = document.getElementById('promptRegister') as HTMLSelectElement;
+const templateSelect = document.getElementById('promptTemplate') as HTMLSelectElement;
+const templateNameInput = document.getElementById('templateName') as HTMLInputElement;
+const templateBodyInput = document.getElementById('templateBody') as HTMLTextAreaElement;
+const newTemplateBtn = document.getElementById('newTemplateBtn') as HTMLButtonElement;
+const saveTemplateBtn = document.getElementById('saveTemplateBtn') as HTMLButtonElement;
+const deleteTemplateBtn = document.getElementById('deleteTemplateBtn') as HTMLButtonElement;
+const promptPreview = document.getElementById('promptPreview') as HTMLPreElement;
+
+let templates: PromptTemplate[] = [];
+let showStatus: StatusCallback;
+
+/**
+ * Load templates and prompt settings into the editor
+ * @param onStatus - Reports results of template actions
+ */
+export async function initPromptEditor(onStatus: StatusCallback): Promise<void> {
+  showStatus = onStatus;
+
+  const settings = await getPromptSettings();
+  targetLanguageInput.value = settings.targetLanguage;
+  collocationCountInput.value = String(settings.collocationCount);
+  registerSelect.value = settings.register;
+
+  await loadTemplates(settings.templateId);
+
+  templateSelect.addEventListener('change', () => showTemplate(templateSelect.value));
+  newTemplateBtn.addEventListener('click', handleNewTemplate);
+  saveTemplateBtn.addEventListener('click', handleSaveTemplate);
+  deleteTemplateBtn.addEventListener('click', handleDeleteTemplate);
+
+  // Live preview
+  [targetLanguageInput, collocationCountInput, templateBodyInput].forEach(el =>
+    el.addEventListener('input', updatePreview)
+  );
+  registerSelect.addEventListener('change', updatePreview);
+}
+
+/**
+ * Save the selected template and placeholder values as the active prompt settings
+ */
+export async function savePromptEditorSettings(): Promise<void> {
+  await savePromptSettings(readSettings());
+}
+
+// Read the settings currently shown in the editor
+function readSettings(): PromptSettings {
+  const count = parseInt(collocationCountInput.value, 10);
+
+  return {
+    templateId: templateSelect.value,
+    targetLanguage: targetLanguageInput.value.trim() || DEFAULT_PROMPT_SETTINGS.targetLanguage,
+    collocationCount: count >= 1 && count <= 10 ? count : DEFAULT_PROMPT_SETTINGS.collocationCount,
+    register: registerSelect.value as PromptRegister,
+  };
+}
+
+// Fill the template dropdown and select a template
+async function loadTemplates(selectedId: string) {
+  templates = await getAllTemplates();
+
+  templateSelect.innerHTML = '';
+  for (const template of templates) {
+    const option = document.createElement('option');
+    option.value = template.id;
+    option.textContent = template.builtIn ? `⭐ ${template.name}` : template.name;
+    templateSelect.appendChild(option);
+  }
+
+  const exists = templates.some(t => t.id === selectedId);
+  showTemplate(exists ? selectedId : DEFAULT_PROMPT_SETTINGS.templateId);
+}
+
+// Show a template in the editor
+function showTemplate(id: string) {
+  const template = templates.find(t => t.id === id) || BUILT_IN_TEMPLATES[0];
+
+  templateSelect.value = template.id;
+  templateNameInput.value = template.name;
+  templateBodyInput.value = template.body;
+  deleteTemplateBtn.disabled = !!template.builtIn;
+  updatePreview();
+}
+
+// Render the edited template with sample words
+function updatePreview() {
+  const settings = readSettings();
+
+  promptPreview.textContent = renderPromptTemplate(templateBodyInput.value, {
+    words: PREVIEW_WORDS,
+    language: settings.targetLanguage,
+    count: settings.collocationCount,
+    register: settings.register,
+    contexts: PREVIEW_CONTEXTS,
+  });
+}
+
+// Start a new template from the one being edited
+function handleNewTemplate() {
+  templateSelect.value = '';
+  templateNameInput.value = 'My template';
+  deleteTemplateBtn.disabled = true;
+  templateNameInput.focus();
+}
+
+// Save the edited template; built-in presets are saved as a copy
+async function handleSaveTemplate() {
+  const name = templateNameInput.value.trim();
+  const body = templateBodyInput.value.trim();
+
+  if (!name || !body) {
+    showStatus('error', 'Template name and body are required');
+    return;
+  }
+
+  const current = templates.find(t => t.id === templateSelect.value);
+  const isCopy = !current || current.builtIn;
+
+  const template: PromptTemplate = {
+    id: isCopy ? crypto.randomUUID() : current.id,
+    name: isCopy && current?.name === name ? `${name} (copy)` : name,
+    body,
+  };
+
+  try {
+    await saveCustomTemplate(template);
+    await loadTemplates(template.id);
+    showStatus('success', 'Template saved');
+  } catch (error) {
+    showStatus('error', 'Failed to save template');
+    console.error(error);
+  }
+}
+
+// Delete the selected user-defined template
+async function handleDeleteTemplate() {
+  const current = templates.find(t => t.id === templateSelect.value);
+  if (!current || current.builtIn) return;
+
+  if (!confirm(`Delete template "${current.name}"?`)) return;
+
+  await deleteCustomTemplate(current.id);
+  await loadTemplates(DEFAULT_PROMPT_SETTINGS.templateId);
+  await savePromptSettings(readSettings());
+  showStatus('success', 'Template deleted');
+}
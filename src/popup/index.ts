@@ -1,16 +1,63 @@
 import { initI18n, t, changeLanguage, getCurrentLanguage } from '../shared/i18n';
 import { validateWord, sanitizeWord } from '../shared/utils/validation';
-import { showToast } from '../shared/utils/notifications';
-import { checkWordExists } from '../shared/api/server';
-import { generateCollocations } from '../shared/api/gemini';
-import { addCollocations, exportCSV, deleteAll } from '../shared/api/server';
+import { showToast, UNDO_DURATION } from '../shared/utils/notifications';
+import { escapeHtml } from '../shared/utils/html';
+import { checkWordExists, getCollocations } from '../shared/api/server';
+import { getServerCapabilities } from '../shared/api/capabilities';
+import { IncompatibleServerError } from '../shared/utils/error-handler';
+import { clearAllCaches, getAllCollocationsWithFallback } from '../shared/cache/strategies';
+import { clearMirror } from '../shared/cache/mirror';
+import { exportCollocations, DEFAULT_EXPORT_COLUMNS } from '../shared/export/exporter';
+import type { CsvDelimiter, ExportFormat } from '../shared/export/exporter';
+import { CARD_FIELDS } from '../shared/utils/cards';
+import { parseImportText, tokenizeImport, previewImport, enqueueImport } from '../shared/import/importer';
+import type { ImportPreview } from '../shared/import/importer';
+import type { CardField } from '../shared/utils/cards';
+import type { DeleteAllResponse } from '../shared/api/server';
 import { db, initDatabase } from '../shared/cache/db';
+import { backupAllCollocations, deleteBackup, restoreBackup } from '../shared/cache/backups';
+import { getOrderedQueue, moveBefore, moveToTop, renameQueueItem, resetQueueItems } from '../shared/cache/queue';
+import { isHighlightEnabled, setHighlightEnabled } from '../shared/utils/site-settings';
+import { clearReviewCards, getDueCount } from '../shared/review/store';
+import { getAIQuota } from '../shared/cache/usage';
+import { getAIProviderConfig } from '../shared/api/providers';
+import { getActiveProfileId, getProfiles, switchProfile } from '../shared/profiles/store';
+import { getActiveServerUrl } from '../shared/profiles/active';
+import {
+  syncOrQueue,
+  flushSyncQueue,
+  getDeadLetters,
+  retryDeadLetter,
+  retryAllDeadLetters,
+  discardDeadLetter,
+} from '../shared/sync/outbox';
+import type { SyncQueueItem, GenerationJob, CollocationBackup, WordQueueItem } from '../shared/types/models';
+import type {
+  GenerationRequest,
+  GenerationStatusResponse,
+  GenerationProgressMessage,
+  ReviewUpdatedRequest,
+} from '../shared/types/messages';
+
+const QUEUE_BADGE_CLASSES: Record<WordQueueItem['status'], string> = {
+  pending: 'bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200',
+  processing: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
 
 // Initialize
 document.addEventListener('DOMContentLoaded', async () => {
   await initI18n();
   await initDatabase();
+  await loadProfiles();
   await loadQueue();
+  await loadDeadLetters();
+  await attachToGeneration();
+  await loadSelectedText();
+  await loadHighlightToggle();
+  await loadReviewCount();
+  await loadAIQuota();
   setupEventListeners();
   applyTranslations();
   checkConfig();
@@ -21,27 +68,101 @@ const wordInput = document.getElementById('wordInput') as HTMLInputElement;
 const addWordBtn = document.getElementById('addWordBtn') as HTMLButtonElement;
 const settingsBtn = document.getElementById('settingsBtn') as HTMLButtonElement;
 const generateBtn = document.getElementById('generateBtn') as HTMLButtonElement;
-const exportCsvBtn = document.getElementById('exportCsvBtn') as HTMLButtonElement;
+const importBtn = document.getElementById('importBtn') as HTMLButtonElement;
+const importPanel = document.getElementById('importPanel') as HTMLDivElement;
+const importText = document.getElementById('importText') as HTMLTextAreaElement;
+const importFile = document.getElementById('importFile') as HTMLInputElement;
+const previewImportBtn = document.getElementById('previewImportBtn') as HTMLButtonElement;
+const importPreview = document.getElementById('importPreview') as HTMLDivElement;
+const confirmImportBtn = document.getElementById('confirmImportBtn') as HTMLButtonElement;
+const exportBtn = document.getElementById('exportBtn') as HTMLButtonElement;
+const exportPanel = document.getElementById('exportPanel') as HTMLDivElement;
+const exportFormat = document.getElementById('exportFormat') as HTMLSelectElement;
+const exportDelimiterField = document.getElementById('exportDelimiterField') as HTMLDivElement;
+const exportDelimiter = document.getElementById('exportDelimiter') as HTMLSelectElement;
+const exportColumnsField = document.getElementById('exportColumnsField') as HTMLDivElement;
+const exportColumns = document.getElementById('exportColumns') as HTMLDivElement;
+const exportFrom = document.getElementById('exportFrom') as HTMLInputElement;
+const exportTo = document.getElementById('exportTo') as HTMLInputElement;
+const exportTag = document.getElementById('exportTag') as HTMLInputElement;
+const downloadExportBtn = document.getElementById('downloadExportBtn') as HTMLButtonElement;
+
+// Words accepted by the last import preview
+let pendingImport: string[] = [];
+
+// Queue view state
+const selectedWords = new Set<string>();
+let editingWord: string | null = null;
+let draggedWord: string | null = null;
 const deleteAllBtn = document.getElementById('deleteAllBtn') as HTMLButtonElement;
 const manageBtn = document.getElementById('manageBtn') as HTMLButtonElement;
 const homeBtn = document.getElementById('homeBtn') as HTMLButtonElement;
+const reviewBtn = document.getElementById('reviewBtn') as HTMLButtonElement;
+const reviewDueCount = document.getElementById('reviewDueCount') as HTMLSpanElement;
 const queueList = document.getElementById('queueList') as HTMLDivElement;
 const queueCount = document.getElementById('queueCount') as HTMLSpanElement;
+const queueSearch = document.getElementById('queueSearch') as HTMLInputElement;
+const queueNoMatches = document.getElementById('queueNoMatches') as HTMLParagraphElement;
+const queueSelectionBar = document.getElementById('queueSelectionBar') as HTMLDivElement;
+const queueSelectedCount = document.getElementById('queueSelectedCount') as HTMLSpanElement;
+const queueMoveTopBtn = document.getElementById('queueMoveTopBtn') as HTMLButtonElement;
+const queueRetryBtn = document.getElementById('queueRetryBtn') as HTMLButtonElement;
+const queueRemoveBtn = document.getElementById('queueRemoveBtn') as HTMLButtonElement;
 const emptyState = document.getElementById('emptyState') as HTMLDivElement;
 const langToggle = document.getElementById('langToggle') as HTMLButtonElement;
 const themeToggle = document.getElementById('themeToggle') as HTMLButtonElement;
+const profileSelect = document.getElementById('profileSelect') as HTMLSelectElement;
+const selectedTextDisplay = document.getElementById('selectedTextDisplay') as HTMLDivElement;
+const selectedWordText = document.getElementById('selectedWordText') as HTMLSpanElement;
+const deadLetterSection = document.getElementById('deadLetterSection') as HTMLDivElement;
+const deadLetterList = document.getElementById('deadLetterList') as HTMLDivElement;
+const retryAllSyncBtn = document.getElementById('retryAllSyncBtn') as HTMLButtonElement;
+const progressBar = document.getElementById('progressBar') as HTMLDivElement;
+const progressFill = document.getElementById('progressFill') as HTMLDivElement;
+const progressText = document.getElementById('progressText') as HTMLDivElement;
+const cancelGenerateBtn = document.getElementById('cancelGenerateBtn') as HTMLButtonElement;
+const aiQuota = document.getElementById('aiQuota') as HTMLParagraphElement;
+const highlightToggleRow = document.getElementById('highlightToggleRow') as HTMLDivElement;
+const highlightToggle = document.getElementById('highlightToggle') as HTMLInputElement;
+const highlightSite = document.getElementById('highlightSite') as HTMLSpanElement;
 
 // Setup event listeners
 function setupEventListeners() {
   addWordBtn.addEventListener('click', handleAddWord);
   settingsBtn.addEventListener('click', () => chrome.runtime.openOptionsPage());
-  generateBtn.addEventListener('click', handleGenerate);
-  exportCsvBtn.addEventListener('click', handleExport);
+  generateBtn.addEventListener('click', () => handleGenerate());
+  queueSearch.addEventListener('input', () => loadQueue());
+  queueList.addEventListener('click', handleQueueClick);
+  queueList.addEventListener('keydown', handleQueueKeydown);
+  queueList.addEventListener('focusout', e => {
+    // Leaving the edit box saves it
+    if ((e.target as HTMLElement).dataset.action === 'edit-input') saveQueueEdit((e.target as HTMLInputElement).value);
+  });
+  queueList.addEventListener('dragstart', handleQueueDragStart);
+  queueList.addEventListener('dragover', handleQueueDragOver);
+  queueList.addEventListener('drop', handleQueueDrop);
+  queueList.addEventListener('dragend', handleQueueDragEnd);
+  queueMoveTopBtn.addEventListener('click', handleMoveSelectedToTop);
+  queueRetryBtn.addEventListener('click', handleRetrySelected);
+  queueRemoveBtn.addEventListener('click', handleRemoveSelected);
+  importBtn.addEventListener('click', () => importPanel.classList.toggle('hidden'));
+  previewImportBtn.addEventListener('click', handlePreviewImport);
+  confirmImportBtn.addEventListener('click', handleConfirmImport);
+  importText.addEventListener('input', resetImportPreview);
+  importFile.addEventListener('change', resetImportPreview);
+  exportBtn.addEventListener('click', toggleExportPanel);
+  exportFormat.addEventListener('change', updateExportFields);
+  downloadExportBtn.addEventListener('click', handleExport);
   deleteAllBtn.addEventListener('click', handleDeleteAll);
   manageBtn.addEventListener('click', handleOpenManage);
   homeBtn.addEventListener('click', handleOpenHome);
+  reviewBtn.addEventListener('click', () => chrome.tabs.create({ url: chrome.runtime.getURL('src/review/index.html') }));
   langToggle.addEventListener('click', handleLanguageToggle);
   themeToggle.addEventListener('click', handleThemeToggle);
+  profileSelect.addEventListener('change', handleProfileSwitch);
+  retryAllSyncBtn.addEventListener('click', handleRetryAllSync);
+  cancelGenerateBtn.addEventListener('click', handleCancelGenerate);
+  highlightToggle.addEventListener('change', handleHighlightToggle);
   wordInput.addEventListener('keypress', (e) => {
     if (e.key === 'Enter') handleAddWord();
   });
@@ -49,12 +170,76 @@ function setupEventListeners() {
 
 // Check if configured
 async function checkConfig() {
-  const config = await chrome.storage.sync.get(['serverUrl']);
-  if (!config.serverUrl) {
+  const serverUrl = await getActiveServerUrl();
+  if (!serverUrl) {
     showToast('warning', t('notifications.configMissing'));
     addWordBtn.disabled = true;
     generateBtn.disabled = true;
+    return;
   }
+
+  // Say up front when the server speaks an API version this extension cannot
+  try {
+    await getServerCapabilities(serverUrl);
+  } catch (error) {
+    if (error instanceof IncompatibleServerError) {
+      showToast('error', t('errors.api.incompatible'), { duration: 0 });
+    }
+  }
+}
+
+// Prefill the input with the word selected on the active page
+async function loadSelectedText() {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id === undefined) return;
+
+    const response: { selectedText?: string } = await chrome.tabs.sendMessage(tab.id, {
+      action: 'getSelectedText',
+    });
+    const word = sanitizeWord(response?.selectedText || '');
+
+    if (!validateWord(word).valid) return;
+
+    selectedWordText.textContent = word;
+    selectedTextDisplay.classList.remove('hidden');
+    wordInput.value = word;
+  } catch {
+    // No content script on this page (e.g. chrome:// pages)
+  }
+}
+
+// Show how many cards are due for review
+async function loadReviewCount() {
+  reviewDueCount.textContent = String(await getDueCount());
+}
+
+// Let the service worker refresh the review badge
+function notifyReviewUpdated() {
+  const request: ReviewUpdatedRequest = { action: 'reviewUpdated' };
+  chrome.runtime.sendMessage(request).catch(() => undefined);
+}
+
+// Show the highlight switch for the active tab's site
+async function loadHighlightToggle() {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  const url = tab?.url ? new URL(tab.url) : null;
+
+  // Content scripts only run on web pages
+  if (!url || !url.protocol.startsWith('http')) return;
+
+  highlightSite.textContent = url.hostname;
+  highlightToggle.checked = await isHighlightEnabled(url.hostname);
+  highlightToggleRow.classList.remove('hidden');
+}
+
+// Switch highlighting for the active tab's site; the content script reacts to the change
+async function handleHighlightToggle() {
+  const hostname = highlightSite.textContent || '';
+  if (!hostname) return;
+
+  await setHighlightEnabled(hostname, highlightToggle.checked);
+  showToast('success', t(highlightToggle.checked ? 'popup.highlight.enabled' : 'popup.highlight.disabled'));
 }
 
 // Add word to queue
@@ -93,72 +278,442 @@ async function handleAddWord() {
 
 // Load queue
 async function loadQueue() {
-  const items = await db.queue.toArray();
+  const items = await getOrderedQueue();
   queueCount.textContent = items.length.toString();
 
+  // Forget selections of words that left the queue
+  const words = new Set(items.map(item => item.word));
+  selectedWords.forEach(word => words.has(word) || selectedWords.delete(word));
+  updateSelectionBar();
+
   if (items.length === 0) {
     queueList.classList.add('hidden');
+    queueNoMatches.classList.add('hidden');
     emptyState.classList.remove('hidden');
     generateBtn.disabled = true;
     return;
   }
 
-  queueList.classList.remove('hidden');
   emptyState.classList.add('hidden');
   generateBtn.disabled = false;
 
-  queueList.innerHTML = items.map(item => `
-    <div class="queue-item">
-      <span class="text-sm font-medium">${item.word}</span>
-      <button class="text-red-500 hover:text-red-700" data-word="${item.word}">✕</button>
-    </div>
-  `).join('');
+  const search = queueSearch.value.trim().toLowerCase();
+  const visible = search
+    ? items.filter(item => item.word.toLowerCase().includes(search) || item.error?.toLowerCase().includes(search))
+    : items;
 
-  // Add remove handlers
-  queueList.querySelectorAll('button').forEach(btn => {
-    btn.addEventListener('click', async (e) => {
-      const word = (e.target as HTMLElement).dataset.word!;
-      await db.queue.delete(word);
-      await loadQueue();
-    });
-  });
+  queueList.classList.toggle('hidden', visible.length === 0);
+  queueNoMatches.classList.toggle('hidden', visible.length > 0);
+
+  queueList.innerHTML = visible.map(item => {
+    const word = escapeHtml(item.word);
+    const selected = selectedWords.has(item.word);
+
+    return `
+      <div class="queue-item gap-2${selected ? ' selected' : ''}" data-word="${word}" draggable="${!search && editingWord !== item.word}">
+        <input type="checkbox" data-action="select" ${selected ? 'checked' : ''}>
+        <div class="flex-1 min-w-0">
+          ${editingWord === item.word ? `
+            <input type="text" class="input text-sm py-1" data-action="edit-input" value="${word}">` : `
+            <div class="flex items-center gap-2">
+              <span class="text-sm font-medium truncate">${word}</span>
+              <span class="text-[10px] px-1.5 py-0.5 rounded ${QUEUE_BADGE_CLASSES[item.status]}">${t(`popup.queue.filters.${item.status}`)}</span>
+            </div>`}
+          ${item.status === 'failed' && item.error ? `
+            <div class="text-xs text-red-600 dark:text-red-400 truncate" title="${escapeHtml(item.error)}">${escapeHtml(item.error)}</div>` : ''}
+          ${item.context?.sentence ? `
+            <div class="text-xs text-gray-500 dark:text-gray-400 italic truncate" title="${escapeHtml(item.context.title || item.context.url || '')}">
+              “${escapeHtml(item.context.sentence)}”
+            </div>` : ''}
+        </div>
+        <button class="text-gray-400 hover:text-gray-600" data-action="edit" title="${t('popup.queue.edit')}">✏️</button>
+        <button class="text-red-500 hover:text-red-700" data-action="remove">✕</button>
+      </div>
+    `;
+  }).join('');
+
+  queueList.querySelector<HTMLInputElement>('[data-action="edit-input"]')?.focus();
 }
 
-// Generate collocations
-async function handleGenerate() {
-  const items = await db.queue.toArray();
-  if (items.length === 0) return;
+// Checkbox, edit and remove buttons on queue items
+async function handleQueueClick(e: Event) {
+  const target = e.target as HTMLElement;
+  const action = target.dataset.action;
+  const word = target.closest<HTMLElement>('.queue-item')?.dataset.word;
+  if (!word || !action) return;
 
-  const words = items.map(i => i.word);
+  if (action === 'select') {
+    if ((target as HTMLInputElement).checked) {
+      selectedWords.add(word);
+    } else {
+      selectedWords.delete(word);
+    }
+    target.closest('.queue-item')!.classList.toggle('selected', selectedWords.has(word));
+    updateSelectionBar();
+  } else if (action === 'edit') {
+    editingWord = word;
+    await loadQueue();
+  } else if (action === 'remove') {
+    await db.queue.delete(word);
+    await loadQueue();
+  }
+}
 
-  try {
-    generateBtn.disabled = true;
-    showToast('info', t('popup.status.generating'));
+// Enter saves the edited word, Escape cancels
+async function handleQueueKeydown(e: KeyboardEvent) {
+  const input = e.target as HTMLInputElement;
+  if (input.dataset.action !== 'edit-input') return;
 
-    const collocations = await generateCollocations(words);
-    await addCollocations(collocations);
-    await db.queue.clear();
+  if (e.key === 'Escape') {
+    editingWord = null;
     await loadQueue();
+  } else if (e.key === 'Enter') {
+    await saveQueueEdit(input.value);
+  }
+}
+
+async function saveQueueEdit(value: string) {
+  const word = editingWord;
+  if (!word) return;
+
+  const newWord = sanitizeWord(value);
+  const validation = validateWord(newWord);
+  if (!validation.valid) {
+    showToast('error', t(validation.error!));
+    return;
+  }
 
-    showToast('success', t('popup.status.generated', { count: collocations.length }));
+  editingWord = null;
+  if (newWord !== word) {
+    const renamed = await renameQueueItem(word, newWord);
+    if (!renamed) {
+      showToast('warning', t('popup.status.wordInQueue'));
+    } else if (selectedWords.delete(word)) {
+      selectedWords.add(newWord);
+    }
+  }
+  await loadQueue();
+}
+
+// Drag a queue item onto another to move it before that item
+function handleQueueDragStart(e: DragEvent) {
+  const item = (e.target as HTMLElement).closest<HTMLElement>('.queue-item');
+  if (!item || !e.dataTransfer) return;
+
+  draggedWord = item.dataset.word!;
+  e.dataTransfer.effectAllowed = 'move';
+  item.classList.add('dragging');
+}
+
+function handleQueueDragOver(e: DragEvent) {
+  if (draggedWord) e.preventDefault();
+}
+
+async function handleQueueDrop(e: DragEvent) {
+  e.preventDefault();
+  const word = draggedWord;
+  draggedWord = null;
+  if (!word) return;
+
+  const target = (e.target as HTMLElement).closest<HTMLElement>('.queue-item');
+  await moveBefore(word, target?.dataset.word);
+  await loadQueue();
+}
+
+function handleQueueDragEnd() {
+  draggedWord = null;
+  queueList.querySelectorAll('.dragging').forEach(el => el.classList.remove('dragging'));
+}
+
+function updateSelectionBar() {
+  queueSelectionBar.classList.toggle('hidden', selectedWords.size === 0);
+  queueSelectedCount.textContent = t('popup.queue.selected', { count: selectedWords.size });
+}
+
+async function handleMoveSelectedToTop() {
+  await moveToTop([...selectedWords]);
+  await loadQueue();
+}
+
+async function handleRemoveSelected() {
+  await db.queue.bulkDelete([...selectedWords]);
+  selectedWords.clear();
+  await loadQueue();
+}
+
+// Generate just the selected words again
+async function handleRetrySelected() {
+  const words = [...selectedWords];
+  await resetQueueItems(words);
+  selectedWords.clear();
+  await loadQueue();
+  await handleGenerate(words);
+}
+
+// Generate collocations (runs in the service worker)
+async function handleGenerate(words?: string[]) {
+  try {
+    generateBtn.disabled = true;
+    const { job } = await sendGenerationRequest({ action: 'startGeneration', words });
+
+    if (job) {
+      showToast('info', job.status === 'paused' ? describePause(job) : t('popup.status.generating'));
+      renderGenerationJob(job);
+    } else {
+      generateBtn.disabled = false;
+    }
   } catch (error) {
     showToast('error', 'Generation failed');
     console.error(error);
-  } finally {
     generateBtn.disabled = false;
   }
 }
 
-// Export CSV
+// Cancel the running generation job
+async function handleCancelGenerate() {
+  cancelGenerateBtn.disabled = true;
+  await sendGenerationRequest({ action: 'cancelGeneration' });
+}
+
+// Reattach to a job that was started before the popup opened
+async function attachToGeneration() {
+  chrome.runtime.onMessage.addListener((message: GenerationProgressMessage) => {
+    if (message.action === 'generationProgress') {
+      handleGenerationProgress(message.job);
+    }
+  });
+
+  const { job } = await sendGenerationRequest({ action: 'getGenerationStatus' });
+  if (job?.status === 'running' || job?.status === 'paused') {
+    renderGenerationJob(job);
+  }
+}
+
+// Handle a progress update from the service worker
+async function handleGenerationProgress(job: GenerationJob) {
+  renderGenerationJob(job);
+  await loadAIQuota();
+
+  if (job.status === 'running') return;
+
+  await loadQueue();
+
+  if (job.status === 'paused') {
+    showToast('warning', describePause(job));
+    return;
+  }
+
+  await loadDeadLetters();
+
+  if (job.status === 'completed') {
+    if (job.queued) {
+      showToast('warning', t('popup.sync.queued'));
+    } else if (job.failed > 0) {
+      showToast('warning', t('popup.status.generatedPartial', { count: job.collocationCount, failed: job.failed }));
+    } else {
+      showToast('success', t('popup.status.generated', { count: job.collocationCount }));
+    }
+  } else if (job.status === 'failed') {
+    showToast('error', job.error || 'Generation failed');
+  } else if (job.status === 'cancelled') {
+    showToast('info', t('popup.status.generationCancelled'));
+  }
+}
+
+// Render job progress in the progress bar
+function renderGenerationJob(job: GenerationJob) {
+  if (job.status !== 'running' && job.status !== 'paused') {
+    progressBar.classList.add('hidden');
+    return;
+  }
+
+  const percent = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+  progressBar.classList.remove('hidden');
+  progressFill.style.width = `${percent}%`;
+  progressText.textContent = job.status === 'paused'
+    ? describePause(job)
+    : t('popup.status.progress', { processed: job.processed, total: job.total });
+  generateBtn.disabled = true;
+  cancelGenerateBtn.disabled = false;
+}
+
+// Why a paused job is waiting and when it continues
+function describePause(job: GenerationJob): string {
+  return t('popup.status.generationPaused', {
+    reason: t(`popup.status.pauseReasons.${job.pauseReason || 'rateLimit'}`),
+    time: formatTime(job.resumeAt ?? Date.now()),
+  });
+}
+
+// Show how much of today's AI quota is left (or used, without limits)
+async function loadAIQuota() {
+  try {
+    const { active, providers } = await getAIProviderConfig();
+    const quota = await getAIQuota(active, providers[active]);
+    const left: string[] = [];
+
+    if (quota.remainingRequests !== undefined) {
+      left.push(t('popup.quota.requestsLeft', { count: quota.remainingRequests }));
+    }
+    if (quota.remainingTokens !== undefined) {
+      left.push(t('popup.quota.tokensLeft', { count: quota.remainingTokens.toLocaleString() }));
+    }
+
+    aiQuota.textContent =
+      quota.exhausted ? t('popup.quota.exhausted', { time: formatTime(quota.resetsAt) }) :
+      left.length > 0 ? t('popup.quota.left', { items: left.join(', ') }) :
+      t('popup.quota.used', { requests: quota.requests, tokens: quota.tokens.toLocaleString() });
+    aiQuota.classList.toggle('text-red-500', quota.exhausted);
+    aiQuota.classList.remove('hidden');
+  } catch (error) {
+    console.error('Failed to load AI quota:', error);
+  }
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// Send a generation request to the service worker
+async function sendGenerationRequest(request: GenerationRequest): Promise<GenerationStatusResponse> {
+  return chrome.runtime.sendMessage(request);
+}
+
+// Parse the pasted text or chosen file and show what would be imported
+async function handlePreviewImport() {
+  previewImportBtn.disabled = true;
+
+  try {
+    const file = importFile.files?.[0];
+    const entries = file ? parseImportText(await file.text(), file.name) : parseImportText(importText.value);
+    const words = tokenizeImport(entries);
+
+    if (words.length === 0) {
+      showToast('warning', t('popup.import.nothing'));
+      return;
+    }
+
+    const preview = await previewImport(words);
+    renderImportPreview(preview);
+  } catch (error) {
+    showToast('error', t('popup.import.failed'));
+    console.error(error);
+  } finally {
+    previewImportBtn.disabled = false;
+  }
+}
+
+function renderImportPreview(preview: ImportPreview) {
+  const groups: { key: string; words: string[]; color: string }[] = [
+    { key: 'new', words: preview.new, color: 'text-green-600 dark:text-green-400' },
+    { key: 'unverified', words: preview.unverified, color: 'text-yellow-600 dark:text-yellow-400' },
+    { key: 'known', words: preview.known, color: 'text-gray-500 dark:text-gray-400' },
+    { key: 'queued', words: preview.queued, color: 'text-blue-600 dark:text-blue-400' },
+    { key: 'invalid', words: preview.invalid.map(entry => entry.word), color: 'text-red-500' },
+  ];
+
+  importPreview.innerHTML = groups
+    .filter(group => group.words.length > 0)
+    .map(group => `
+      <div>
+        <div class="font-medium ${group.color}">${t(`popup.import.groups.${group.key}`, { count: group.words.length })}</div>
+        <div class="text-xs text-gray-600 dark:text-gray-300 break-words">${group.words.map(escapeHtml).join(', ')}</div>
+      </div>
+    `).join('');
+  importPreview.classList.remove('hidden');
+
+  // Words that could not be checked are queued too; generation is cheap to retry
+  pendingImport = [...preview.new, ...preview.unverified];
+  confirmImportBtn.textContent = t('popup.import.confirm', { count: pendingImport.length });
+  confirmImportBtn.disabled = pendingImport.length === 0;
+  confirmImportBtn.classList.remove('hidden');
+}
+
+function resetImportPreview() {
+  pendingImport = [];
+  importPreview.classList.add('hidden');
+  confirmImportBtn.classList.add('hidden');
+}
+
+// Enqueue the accepted words
+async function handleConfirmImport() {
+  if (pendingImport.length === 0) return;
+  confirmImportBtn.disabled = true;
+
+  try {
+    const added = await enqueueImport(pendingImport);
+    importText.value = '';
+    importFile.value = '';
+    resetImportPreview();
+    importPanel.classList.add('hidden');
+
+    await loadQueue();
+    showToast('success', t('popup.import.added', { count: added }));
+  } catch (error) {
+    showToast('error', t('popup.import.failed'));
+    console.error(error);
+  } finally {
+    confirmImportBtn.disabled = false;
+  }
+}
+
+// Show or hide the export options
+function toggleExportPanel() {
+  if (!exportColumns.hasChildNodes()) {
+    exportColumns.innerHTML = CARD_FIELDS.map(field => `
+      <label class="flex items-center gap-1 truncate">
+        <input type="checkbox" value="${field}" ${DEFAULT_EXPORT_COLUMNS.includes(field) ? 'checked' : ''}>
+        ${field}
+      </label>
+    `).join('');
+  }
+
+  exportPanel.classList.toggle('hidden');
+  updateExportFields();
+}
+
+// Columns and delimiter only apply to some formats
+function updateExportFields() {
+  const format = exportFormat.value as ExportFormat;
+  exportDelimiterField.classList.toggle('invisible', format !== 'csv');
+  exportColumnsField.classList.toggle('hidden', format !== 'csv' && format !== 'markdown');
+}
+
+// Export collocations in the chosen format, offline from the last fetched list if needed
 async function handleExport() {
   try {
-    const blob = await exportCSV();
-    const url = URL.createObjectURL(blob);
+    const { collocations, offline } = await getAllCollocationsWithFallback(getCollocations);
+
+    const columns = [...exportColumns.querySelectorAll<HTMLInputElement>('input:checked')]
+      .map(input => input.value as CardField);
+
+    const file = exportCollocations(collocations, {
+      format: exportFormat.value as ExportFormat,
+      columns,
+      delimiter: (exportDelimiter.value === 'tab' ? '\t' : exportDelimiter.value) as CsvDelimiter,
+      // Local-time day bounds; the end day is included
+      from: exportFrom.value ? new Date(`${exportFrom.value}T00:00:00`) : undefined,
+      to: exportTo.value ? new Date(`${exportTo.value}T23:59:59.999`) : undefined,
+      tag: exportTag.value.trim() || undefined,
+    });
+
+    if (file.count === 0) {
+      showToast('warning', t('popup.export.empty'));
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'vocabulary.csv';
+    a.download = file.filename;
     a.click();
-    showToast('success', t('popup.status.exportSuccess'));
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+    showToast(
+      offline ? 'warning' : 'success',
+      t(offline ? 'popup.export.offline' : 'popup.status.exportSuccess', { count: file.count })
+    );
   } catch (error) {
     showToast('error', 'Export failed');
     console.error(error);
@@ -167,17 +722,141 @@ async function handleExport() {
 
 // Delete all
 async function handleDeleteAll() {
-  if (!confirm(t('popup.status.deleteConfirm'))) return;
+  // Back up first; without a full backup the delete cannot be undone
+  let backup: CollocationBackup | undefined;
+  try {
+    backup = await backupAllCollocations();
+  } catch (error) {
+    console.warn('Backup before delete failed:', error);
+  }
+
+  if (!confirmDeleteAll(backup)) {
+    if (backup) await deleteBackup(backup.id);
+    return;
+  }
 
   try {
-    const result = await deleteAll();
-    showToast('success', t('popup.status.deleted', { count: result.deletedCount }));
+    const outcome = await syncOrQueue<DeleteAllResponse>('deleteAll', undefined);
+    // Local copies would keep showing the cards and report words as already saved
+    await clearMirror();
+    await clearAllCaches();
+    await clearReviewCards();
+    notifyReviewUpdated();
+    await loadReviewCount();
+    await loadDeadLetters();
+
+    const undo = backup && {
+      duration: UNDO_DURATION,
+      action: { label: t('popup.status.undo'), onClick: () => handleUndoDelete(backup.id) },
+    };
+
+    if (outcome.queued) {
+      showToast('warning', t('popup.sync.queued'), undo);
+    } else {
+      showToast('success', t('popup.status.deleted', { count: outcome.result?.deletedCount ?? 0 }), undo);
+    }
   } catch (error) {
     showToast('error', 'Delete failed');
     console.error(error);
   }
 }
 
+// A full backup needs a plain confirm; otherwise the phrase must be typed
+function confirmDeleteAll(backup?: CollocationBackup): boolean {
+  if (backup?.complete) {
+    return confirm(t('popup.status.deleteConfirm', { count: backup.collocations.length }));
+  }
+
+  const phrase = t('popup.status.deletePhrase');
+  const typed = prompt(t('popup.status.deletePhrasePrompt', { phrase }));
+  if (typed === null) return false;
+
+  if (typed.trim() !== phrase) {
+    showToast('warning', t('popup.status.deletePhraseMismatch'));
+    return false;
+  }
+  return true;
+}
+
+// Re-upload the backup taken before delete-all
+async function handleUndoDelete(backupId: string) {
+  try {
+    const outcome = await restoreBackup(backupId);
+    notifyReviewUpdated();
+    await loadReviewCount();
+    await loadDeadLetters();
+
+    if (outcome.queued) {
+      showToast('warning', t('popup.sync.queued'));
+    } else {
+      showToast('success', t('popup.status.restored', { count: outcome.result?.insertedCount ?? 0 }));
+    }
+  } catch (error) {
+    showToast('error', t('popup.status.restoreFailed'));
+    console.error(error);
+  }
+}
+
+// Load dead-letter sync items
+async function loadDeadLetters() {
+  const items = await getDeadLetters();
+
+  if (items.length === 0) {
+    deadLetterSection.classList.add('hidden');
+    return;
+  }
+
+  deadLetterSection.classList.remove('hidden');
+
+  deadLetterList.innerHTML = items.map(item => `
+    <div class="queue-item">
+      <div class="flex-1 min-w-0">
+        <div class="text-sm font-medium">${escapeHtml(describeSyncItem(item))}</div>
+        <div class="text-xs text-red-500 truncate" title="${escapeHtml(item.lastError || '')}">${escapeHtml(item.lastError || '')}</div>
+      </div>
+      <div class="flex gap-2 ml-2">
+        <button class="text-primary-600 hover:text-primary-700 text-sm" data-action="retry" data-id="${item.id}">${t('popup.sync.retry')}</button>
+        <button class="text-red-500 hover:text-red-700 text-sm" data-action="discard" data-id="${item.id}">${t('popup.sync.discard')}</button>
+      </div>
+    </div>
+  `).join('');
+
+  deadLetterList.querySelectorAll('button').forEach(btn => {
+    btn.addEventListener('click', async (e) => {
+      const { action, id } = (e.target as HTMLElement).dataset;
+      if (action === 'retry') {
+        await retryDeadLetter(id!);
+        await flushSyncQueue();
+      } else {
+        await discardDeadLetter(id!);
+      }
+      await loadDeadLetters();
+    });
+  });
+}
+
+// Retry all dead-letter sync items
+async function handleRetryAllSync() {
+  try {
+    await retryAllDeadLetters();
+    showToast('info', t('popup.sync.retried'));
+    await flushSyncQueue();
+  } catch (error) {
+    console.error(error);
+  } finally {
+    await loadDeadLetters();
+  }
+}
+
+// Human-readable label for an outbox item
+function describeSyncItem(item: SyncQueueItem): string {
+  if (item.action === 'add') {
+    const count = (item.data as { collocations?: unknown[] })?.collocations?.length ?? 0;
+    return t('popup.sync.actions.add', { count });
+  }
+  return t(`popup.sync.actions.${item.action}`);
+}
+
 // Language toggle
 async function handleLanguageToggle() {
   const current = getCurrentLanguage();
@@ -193,24 +872,45 @@ function handleThemeToggle() {
   chrome.storage.sync.set({ theme: isDark ? 'light' : 'dark' });
 }
 
-// Open manage page
-async function handleOpenManage() {
-  const config = await chrome.storage.sync.get(['serverUrl']);
-  if (!config.serverUrl) {
-    showToast('error', 'Please configure Server URL in settings');
-    return;
+// Show the profiles with the active one selected
+async function loadProfiles() {
+  const [profiles, activeId] = await Promise.all([getProfiles(), getActiveProfileId()]);
+
+  profileSelect.innerHTML = profiles.map(profile => `
+    <option class="text-gray-900" value="${escapeHtml(profile.id)}">${escapeHtml(profile.name)}</option>
+  `).join('');
+  profileSelect.value = activeId;
+  profileSelect.title = t('popup.profile.label');
+  profileSelect.setAttribute('aria-label', t('popup.profile.label'));
+}
+
+// Switch profile; everything shown belongs to the old profile, so start over
+async function handleProfileSwitch() {
+  profileSelect.disabled = true;
+  try {
+    await switchProfile(profileSelect.value);
+    location.reload();
+  } catch (error) {
+    console.error('Failed to switch profile:', error);
+    showToast('error', t('popup.profile.switchFailed'));
+    profileSelect.disabled = false;
+    await loadProfiles();
   }
-  window.open(config.serverUrl + '/manage.html', '_blank');
+}
+
+// Open manage page
+function handleOpenManage() {
+  chrome.tabs.create({ url: chrome.runtime.getURL('src/manage/index.html') });
 }
 
 // Open home page
 async function handleOpenHome() {
-  const config = await chrome.storage.sync.get(['serverUrl']);
-  if (!config.serverUrl) {
+  const serverUrl = await getActiveServerUrl();
+  if (!serverUrl) {
     showToast('error', 'Please configure Server URL in settings');
     return;
   }
-  window.open(config.serverUrl, '_blank');
+  window.open(serverUrl, '_blank');
 }
 
 // Apply translations
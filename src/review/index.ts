@@ -0,0 +1,196 @@
+import { initI18n, t } from '../shared/i18n';
+import { showToast } from '../shared/utils/notifications';
+import { initDatabase, db } from '../shared/cache/db';
+import { ACTIVE_PROFILE_KEY } from '../shared/profiles/active';
+import { getMirroredCollocations, syncMirror } from '../shared/cache/mirror';
+import { addReviewCards, getDueCards, getDueCount, getReviewCountSince, gradeCard } from '../shared/review/store';
+import { REVIEW_GRADES, formatInterval, previewIntervals } from '../shared/review/scheduler';
+import { flushSyncQueue } from '../shared/sync/outbox';
+import type { ReviewCard, ReviewGrade } from '../shared/types/models';
+import type { ReviewUpdatedRequest } from '../shared/types/messages';
+
+const SESSION_SIZE = 50;
+
+// Initialize
+document.addEventListener('DOMContentLoaded', async () => {
+  await initI18n();
+  await initDatabase();
+  applyTranslations();
+  followProfileSwitch();
+  setupEventListeners();
+  await refreshDeck();
+  await startSession();
+});
+
+// Everything on the page belongs to the active profile; start over when it changes
+function followProfileSwitch() {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes[ACTIVE_PROFILE_KEY]) location.reload();
+  });
+}
+
+// DOM Elements
+const dueCount = document.getElementById('dueCount') as HTMLSpanElement;
+const reviewedCount = document.getElementById('reviewedCount') as HTMLSpanElement;
+const reviewCard = document.getElementById('reviewCard') as HTMLDivElement;
+const cardFront = document.getElementById('cardFront') as HTMLDivElement;
+const cardHeadword = document.getElementById('cardHeadword') as HTMLDivElement;
+const cardBack = document.getElementById('cardBack') as HTMLDivElement;
+const cardIpa = document.getElementById('cardIpa') as HTMLDivElement;
+const cardMeaning = document.getElementById('cardMeaning') as HTMLDivElement;
+const cardSynonyms = document.getElementById('cardSynonyms') as HTMLDivElement;
+const cardExamples = document.getElementById('cardExamples') as HTMLUListElement;
+const showAnswerBtn = document.getElementById('showAnswerBtn') as HTMLButtonElement;
+const gradeButtons = document.getElementById('gradeButtons') as HTMLDivElement;
+const emptyState = document.getElementById('emptyState') as HTMLDivElement;
+const nextDue = document.getElementById('nextDue') as HTMLParagraphElement;
+
+let session: ReviewCard[] = [];
+let current: ReviewCard | null = null;
+let answerShown = false;
+let grading = false;
+
+// Setup event listeners
+function setupEventListeners() {
+  showAnswerBtn.addEventListener('click', showAnswer);
+
+  gradeButtons.querySelectorAll<HTMLButtonElement>('[data-grade]').forEach(btn => {
+    btn.addEventListener('click', () => handleGrade(btn.dataset.grade as ReviewGrade));
+  });
+
+  document.addEventListener('keydown', (e) => {
+    if (!current) return;
+
+    if (e.key === ' ' && !answerShown) {
+      e.preventDefault();
+      showAnswer();
+    } else if (answerShown && e.key >= '1' && e.key <= '4') {
+      handleGrade(REVIEW_GRADES[Number(e.key) - 1]);
+    }
+  });
+}
+
+// Add cards for collocations saved from other devices or the web UI
+async function refreshDeck() {
+  try {
+    await syncMirror();
+  } catch (error) {
+    // Offline: build the deck from the local mirror
+    console.warn('Failed to pull collocations:', error);
+  }
+
+  const added = await addReviewCards(await getMirroredCollocations());
+  if (added > 0) {
+    showToast('info', t('review.newCards', { count: added }));
+  }
+}
+
+// Load due cards and show the first one
+async function startSession() {
+  session = await getDueCards(SESSION_SIZE);
+  await updateCounts();
+  showNextCard();
+}
+
+async function updateCounts() {
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+
+  dueCount.textContent = String(await getDueCount());
+  reviewedCount.textContent = String(await getReviewCountSince(startOfDay.getTime()));
+}
+
+// Show the front of the next card, or the empty state
+function showNextCard() {
+  current = session.shift() || null;
+  answerShown = false;
+
+  if (!current) {
+    reviewCard.classList.add('hidden');
+    emptyState.classList.remove('hidden');
+    showNextDue();
+    return;
+  }
+
+  emptyState.classList.add('hidden');
+  reviewCard.classList.remove('hidden');
+  cardBack.classList.add('hidden');
+  gradeButtons.classList.add('hidden');
+  showAnswerBtn.classList.remove('hidden');
+
+  cardFront.textContent = current.collocation;
+  cardHeadword.textContent =
+    current.headword && current.headword !== current.collocation.toLowerCase() ? current.headword : '';
+}
+
+// Flip the card
+function showAnswer() {
+  if (!current) return;
+  answerShown = true;
+
+  cardIpa.textContent = current.ipa || '';
+  cardMeaning.textContent = current.meaning || '';
+  cardSynonyms.textContent = current.synonyms?.length
+    ? `${t('review.synonyms')} ${current.synonyms.join(', ')}`
+    : '';
+
+  cardExamples.innerHTML = '';
+  for (const example of current.examples || []) {
+    const item = document.createElement('li');
+    item.textContent = example;
+    cardExamples.appendChild(item);
+  }
+
+  // Label each grade with when the card would come back
+  const intervals = previewIntervals(current);
+  gradeButtons.querySelectorAll<HTMLButtonElement>('[data-grade]').forEach(btn => {
+    const grade = btn.dataset.grade as ReviewGrade;
+    btn.textContent = `${t(`review.grades.${grade}`)} · ${formatInterval(intervals[grade])}`;
+  });
+
+  cardBack.classList.remove('hidden');
+  showAnswerBtn.classList.add('hidden');
+  gradeButtons.classList.remove('hidden');
+}
+
+// Grade the current card and move on
+async function handleGrade(grade: ReviewGrade) {
+  if (!current || !answerShown || grading) return;
+  grading = true;
+
+  try {
+    const card = await gradeCard(current.id, grade);
+
+    // Forgotten cards come back later in the same session
+    if (grade === 'again') {
+      session.push(card);
+    }
+
+    // Upload history in the background; the outbox retries if offline
+    flushSyncQueue().catch(error => console.warn('Failed to sync reviews:', error));
+    const request: ReviewUpdatedRequest = { action: 'reviewUpdated' };
+    chrome.runtime.sendMessage(request).catch(() => undefined);
+
+    await updateCounts();
+    showNextCard();
+  } catch (error) {
+    showToast('error', t('review.gradeFailed'));
+    console.error(error);
+  } finally {
+    grading = false;
+  }
+}
+
+// Tell the user when the next card becomes due
+async function showNextDue() {
+  const next = await db.reviewCards.orderBy('due').first();
+  nextDue.textContent = next ? t('review.nextDue', { time: new Date(next.due).toLocaleString() }) : '';
+}
+
+// Apply translations
+function applyTranslations() {
+  document.querySelectorAll('[data-i18n]').forEach(el => {
+    const key = el.getAttribute('data-i18n')!;
+    el.textContent = t(key);
+  });
+}
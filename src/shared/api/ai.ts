@@ -0,0 +1,113 @@
+/**
+ * AI generation facade
+ * Builds prompts, calls the active provider and validates its output
+ */
+
+import { getActiveAIProvider, getAIProviderConfig, createAIProvider } from './providers';
+import type { AIProviderId, AIProviderSettings } from './providers';
+import type { JsonSchema } from './providers/types';
+import { parseGenerationText } from './response-parser';
+import { buildPromptForWords } from '../prompts/templates';
+import { getAIQuota, recordAIUsage } from '../cache/usage';
+import { QuotaExceededError } from '../utils/error-handler';
+import type { Collocation, WordGenerationResult } from '../types/models';
+
+// Structured output schema for generation responses
+const RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          word: { type: 'string' },
+          lemma: { type: 'string' },
+          collocations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                collocation: { type: 'string' },
+                partOfSpeech: { type: 'string' },
+                ipa: { type: 'string' },
+                meaning: { type: 'string' },
+                synonyms: { type: 'array', items: { type: 'string' } },
+                antonyms: { type: 'array', items: { type: 'string' } },
+                examples: { type: 'array', items: { type: 'string' } },
+                cefrLevel: { type: 'string' },
+                tags: { type: 'array', items: { type: 'string' } },
+              },
+              required: ['collocation', 'ipa', 'meaning'],
+            },
+          },
+        },
+        required: ['word', 'lemma', 'collocations'],
+      },
+    },
+  },
+  required: ['results'],
+};
+
+/**
+ * Generate collocations for a list of words using the active AI provider
+ * @param words - Array of words to generate collocations for
+ * @returns Array of generated collocations
+ */
+export async function generateCollocations(words: string[]): Promise<Collocation[]> {
+  const results = await generateCollocationsByWord(words);
+  return results.flatMap(r => r.collocations);
+}
+
+/**
+ * Generate collocations for a list of words in a single AI request
+ * Request-level failures throw (AIResponseError for malformed output,
+ * QuotaExceededError once the daily limit is reached);
+ * per-word failures are reported in the result
+ * @param words - Words to generate collocations for (one chunk)
+ * @param contexts - Source sentences keyed by word, used to pick the right sense
+ * @returns One result per requested word, in request order
+ */
+export async function generateCollocationsByWord(
+  words: string[],
+  contexts?: Record<string, string>
+): Promise<WordGenerationResult[]> {
+  const { active, providers } = await getAIProviderConfig();
+  const quota = await getAIQuota(active, providers[active]);
+  if (quota.exhausted) {
+    throw new QuotaExceededError(`Daily AI quota for ${active} is used up`, quota.resetsAt);
+  }
+
+  const provider = createAIProvider(active, providers[active]);
+  const prompt = await buildPromptForWords(words, contexts);
+  const { text, usage } = await provider.complete(prompt, { responseSchema: RESPONSE_SCHEMA });
+  await recordAIUsage(active, usage);
+
+  const { results, report } = parseGenerationText(text, words);
+
+  if (report.issues.length > 0) {
+    console.warn('AI response validation report:', report);
+  }
+
+  return results;
+}
+
+/**
+ * Test AI provider connection
+ * @param id - Provider to test (defaults to the active one)
+ * @param settings - Unsaved settings to test with
+ * @returns true if the provider answers
+ */
+export async function testAIConnection(
+  id?: AIProviderId,
+  settings?: AIProviderSettings
+): Promise<boolean> {
+  try {
+    const provider = id && settings ? createAIProvider(id, settings) : await getActiveAIProvider();
+    const { text, usage } = await provider.complete("Say 'OK'", { timeout: 10000, retries: 0 });
+    await recordAIUsage(provider.id, usage);
+    return !!text;
+  } catch {
+    return false;
+  }
+}
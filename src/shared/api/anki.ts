@@ -0,0 +1,239 @@
+/**
+ * Anki client
+ * Talks the AnkiConnect JSON protocol (version 6) to a local endpoint
+ */
+
+import { post } from './client';
+import { APIError } from '../utils/error-handler';
+import { escapeHtml } from '../utils/html';
+import { getCardFieldValues, isCardField } from '../utils/cards';
+import type { CardField } from '../utils/cards';
+import type { Collocation } from '../types/models';
+
+const ANKI_SETTINGS_KEY = 'ankiSettings';
+const ANKI_CONNECT_VERSION = 6;
+
+export interface AnkiSettings {
+  endpoint: string;
+  deck: string;
+  noteType: string;
+  fieldMap: Record<string, CardField[]>; // Note field name -> card fields joined into it
+  tags: string[]; // Added to every note, besides the card's own tags
+}
+
+export interface AnkiNoteResult {
+  collocation: string;
+  status: 'added' | 'duplicate' | 'failed';
+  noteId?: number;
+  error?: string;
+}
+
+export interface AnkiExportResult {
+  added: number;
+  duplicates: number;
+  failed: number;
+  results: AnkiNoteResult[];
+}
+
+interface AnkiConnectResponse<T> {
+  result: T;
+  error: string | null;
+}
+
+interface AnkiNote {
+  deckName: string;
+  modelName: string;
+  fields: Record<string, string>;
+  tags: string[];
+  options: { allowDuplicate: boolean; duplicateScope: 'deck' };
+}
+
+export const DEFAULT_ANKI_SETTINGS: AnkiSettings = {
+  endpoint: 'http://127.0.0.1:8765',
+  deck: 'Vocabulary',
+  noteType: 'Basic',
+  fieldMap: {
+    Front: ['collocation'],
+    Back: ['ipa', 'meaning', 'examples'],
+  },
+  tags: ['vocabulary-manager'],
+};
+
+/**
+ * Get Anki settings, filled with defaults
+ */
+export async function getAnkiSettings(): Promise<AnkiSettings> {
+  const result = await chrome.storage.sync.get(ANKI_SETTINGS_KEY);
+  return { ...DEFAULT_ANKI_SETTINGS, ...result[ANKI_SETTINGS_KEY] };
+}
+
+/**
+ * Save Anki settings
+ * @param settings - Endpoint, deck, note type and field mapping
+ */
+export async function saveAnkiSettings(settings: AnkiSettings): Promise<void> {
+  await chrome.storage.sync.set({ [ANKI_SETTINGS_KEY]: settings });
+}
+
+/**
+ * Call an AnkiConnect action
+ * AnkiConnect answers HTTP 200 with an error field when an action fails
+ * @param endpoint - AnkiConnect URL
+ * @param action - Action name
+ * @param params - Action parameters
+ * @returns Action result
+ */
+export async function ankiRequest<T>(
+  endpoint: string,
+  action: string,
+  params: Record<string, unknown> = {}
+): Promise<T> {
+  const response = await post<AnkiConnectResponse<T>>(
+    endpoint,
+    { action, version: ANKI_CONNECT_VERSION, params },
+    { timeout: 15000, retries: 0 }
+  );
+
+  if (!response || typeof response !== 'object' || !('result' in response)) {
+    throw new APIError('Unexpected response from AnkiConnect', undefined, endpoint);
+  }
+  if (response.error) {
+    throw new APIError(`AnkiConnect ${action}: ${response.error}`, undefined, endpoint);
+  }
+  return response.result;
+}
+
+/**
+ * Check that AnkiConnect is reachable
+ * @param endpoint - AnkiConnect URL
+ * @returns Protocol version reported by the server
+ */
+export async function getAnkiVersion(endpoint: string): Promise<number> {
+  return ankiRequest<number>(endpoint, 'version');
+}
+
+/**
+ * List deck names
+ */
+export async function getDeckNames(endpoint: string): Promise<string[]> {
+  return ankiRequest<string[]>(endpoint, 'deckNames');
+}
+
+/**
+ * List note type names
+ */
+export async function getNoteTypeNames(endpoint: string): Promise<string[]> {
+  return ankiRequest<string[]>(endpoint, 'modelNames');
+}
+
+/**
+ * List the fields of a note type, in order
+ * @param noteType - Note type name
+ */
+export async function getNoteTypeFields(endpoint: string, noteType: string): Promise<string[]> {
+  return ankiRequest<string[]>(endpoint, 'modelFieldNames', { modelName: noteType });
+}
+
+/**
+ * Parse a field mapping entry such as "ipa, meaning"
+ * @param value - Comma-separated card field names
+ * @returns Known card fields, in the order given
+ */
+export function parseFieldList(value: string): CardField[] {
+  return value
+    .split(',')
+    .map(field => field.trim())
+    .filter(isCardField);
+}
+
+/**
+ * Send collocations to Anki, adding only notes that are not already in the deck
+ * @param collocations - Cards to export
+ * @param settings - Anki settings (saved settings when omitted)
+ * @returns Per-note results
+ */
+export async function exportToAnki(
+  collocations: Collocation[],
+  settings?: AnkiSettings
+): Promise<AnkiExportResult> {
+  const config = settings || (await getAnkiSettings());
+  const notes = collocations.map(card => buildNote(card, config));
+
+  // The deck is created if missing; existing decks are left untouched
+  await ankiRequest(config.endpoint, 'createDeck', { deck: config.deck });
+
+  const checks = await ankiRequest<{ canAdd: boolean; error?: string }[]>(
+    config.endpoint,
+    'canAddNotesWithErrorDetail',
+    { notes }
+  );
+
+  const results: AnkiNoteResult[] = collocations.map((card, index) => {
+    const check = checks[index];
+    if (check?.canAdd) {
+      return { collocation: card.collocation, status: 'added' };
+    }
+
+    const duplicate = check?.error?.toLowerCase().includes('duplicate');
+    return {
+      collocation: card.collocation,
+      status: duplicate ? 'duplicate' : 'failed',
+      error: check?.error,
+    };
+  });
+
+  const addable = results.map((result, index) => (result.status === 'added' ? index : -1)).filter(i => i >= 0);
+
+  if (addable.length > 0) {
+    const noteIds = await ankiRequest<(number | null)[]>(config.endpoint, 'addNotes', {
+      notes: addable.map(index => notes[index]),
+    });
+
+    addable.forEach((index, position) => {
+      const noteId = noteIds[position];
+      if (noteId) {
+        results[index].noteId = noteId;
+      } else {
+        results[index] = { ...results[index], status: 'failed', error: 'Anki rejected the note' };
+      }
+    });
+  }
+
+  return {
+    added: results.filter(r => r.status === 'added').length,
+    duplicates: results.filter(r => r.status === 'duplicate').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    results,
+  };
+}
+
+/**
+ * Build an Anki note from a card using the field mapping
+ */
+function buildNote(card: Collocation, settings: AnkiSettings): AnkiNote {
+  const fields: Record<string, string> = {};
+
+  for (const [noteField, cardFields] of Object.entries(settings.fieldMap)) {
+    fields[noteField] = cardFields
+      .map(field => formatField(card, field))
+      .filter(Boolean)
+      .join('<br>');
+  }
+
+  // Anki tags cannot contain spaces
+  const tags = [...settings.tags, ...(card.tags || [])].map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean);
+
+  return {
+    deckName: settings.deck,
+    modelName: settings.noteType,
+    fields,
+    tags: [...new Set(tags)],
+    options: { allowDuplicate: false, duplicateScope: 'deck' },
+  };
+}
+
+// Anki fields are HTML
+function formatField(card: Collocation, field: CardField): string {
+  const values = getCardFieldValues(card, field).map(escapeHtml);
+  return field === 'examples' ? values.map(example => `<i>${example}</i>`).join('<br>') : values.join(', ');
+}
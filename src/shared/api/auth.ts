@@ -0,0 +1,232 @@
+/**
+ * Server authentication
+ * Signs in with username/password (bearer + refresh token) or a personal API token.
+ * Secrets live in the encrypted keychain. The method and user stay in local storage
+ * with them, since another device has neither these tokens nor this device's cached data
+ */
+
+import { get, post } from './client';
+import { APIError, IncompatibleServerError, UnsyncedChangesError } from '../utils/error-handler';
+import { supportsFeature } from './capabilities';
+import { secureRemove, secureRetrieve, secureStore } from '../security/keychain';
+import { clearUserData, db } from '../cache/db';
+import { activeSettingKey, getActiveServerUrl } from '../profiles/active';
+
+const AUTH_SETTINGS_KEY = 'authSettings';
+const ACCESS_TOKEN_KEY = 'authAccessToken';
+const REFRESH_TOKEN_KEY = 'authRefreshToken';
+const API_TOKEN_KEY = 'authApiToken';
+
+export type AuthMethod = 'none' | 'password' | 'token';
+
+export interface AuthSettings {
+  method: AuthMethod;
+  username?: string; // Signed-in user
+  userId?: string; // Server id of the last user whose data is cached locally
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  status: string;
+  token: string; // Bearer access token
+  refreshToken?: string;
+  user?: AuthUser;
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+export interface CurrentUserResponse {
+  status: string;
+  user: AuthUser;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface RefreshTokenResponse {
+  status: string;
+  token: string;
+  refreshToken?: string; // Rotated refresh token, if the server issues one
+}
+
+// One refresh at a time; concurrent 401s wait for the same attempt
+let refreshing: Promise<boolean> | null = null;
+
+/**
+ * Get auth settings
+ */
+export async function getAuthSettings(): Promise<AuthSettings> {
+  const key = await activeSettingKey(AUTH_SETTINGS_KEY);
+  const result = await chrome.storage.local.get(key);
+  return { method: 'none', ...result[key] };
+}
+
+async function saveAuthSettings(settings: AuthSettings): Promise<void> {
+  await chrome.storage.local.set({ [await activeSettingKey(AUTH_SETTINGS_KEY)]: settings });
+}
+
+/**
+ * Sign in with username and password
+ * The password is sent once and never stored
+ * @param serverUrl - Server to sign in to
+ * @returns Signed-in user name
+ * @throws UnsyncedChangesError if another user's changes are still waiting to be uploaded
+ */
+export async function login(serverUrl: string, username: string, password: string): Promise<string> {
+  if (!(await supportsFeature(serverUrl, 'auth'))) {
+    throw new IncompatibleServerError('This server does not support sign-in');
+  }
+
+  const body: LoginRequest = { username, password };
+
+  const response = await post<LoginResponse>(
+    `${serverUrl}/api/auth/login`,
+    body,
+    { timeout: 15000, retries: 0 }
+  );
+
+  if (!response.token) {
+    throw new APIError('Login response did not include a token', undefined, serverUrl);
+  }
+
+  await switchUser(response.user?.id ?? username);
+  await secureStore(ACCESS_TOKEN_KEY, response.token);
+  if (response.refreshToken) {
+    await secureStore(REFRESH_TOKEN_KEY, response.refreshToken);
+  } else {
+    await secureRemove(REFRESH_TOKEN_KEY);
+  }
+
+  const signedIn = response.user?.username ?? username;
+  const settings = await getAuthSettings();
+  await saveAuthSettings({ ...settings, method: 'password', username: signedIn });
+  return signedIn;
+}
+
+/**
+ * Use a personal API token instead of a password
+ * The server reports whose token it is, so a rotated token keeps the same user
+ * @param serverUrl - Server that issued the token
+ * @param token - API token issued by the server
+ * @returns User name the token belongs to
+ * @throws UnsyncedChangesError if another user's changes are still waiting to be uploaded
+ */
+export async function useApiToken(serverUrl: string, token: string): Promise<string> {
+  // Checked before it is stored, so a mistyped token never replaces a working one
+  const response = await get<CurrentUserResponse>(
+    `${serverUrl}/api/auth/me`,
+    { timeout: 15000, retries: 0, headers: { Authorization: `Bearer ${token}` } }
+  );
+
+  if (!response.user?.id) {
+    throw new APIError('The server did not report which user the token belongs to', undefined, serverUrl);
+  }
+
+  await switchUser(response.user.id);
+  await secureStore(API_TOKEN_KEY, token);
+  await clearSession();
+
+  const settings = await getAuthSettings();
+  await saveAuthSettings({ ...settings, method: 'token', username: response.user.username });
+  return response.user.username;
+}
+
+/**
+ * Stop sending credentials
+ * Local data stays until a different user signs in
+ */
+export async function logout(): Promise<void> {
+  await clearSession();
+  await secureRemove(API_TOKEN_KEY);
+
+  const settings = await getAuthSettings();
+  await saveAuthSettings({ ...settings, method: 'none', username: undefined });
+}
+
+/**
+ * Authorization header for server requests
+ * @returns Headers to merge into the request (empty when signed out)
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { method } = await getAuthSettings();
+  const token =
+    method === 'password' ? await secureRetrieve(ACCESS_TOKEN_KEY) :
+    method === 'token' ? await secureRetrieve(API_TOKEN_KEY) :
+    null;
+
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Get a new access token after a 401
+ * API tokens cannot be refreshed; a rejected refresh token signs the user out
+ * @returns true if the request should be retried
+ */
+export async function refreshAuth(): Promise<boolean> {
+  refreshing ??= doRefresh().finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+}
+
+async function doRefresh(): Promise<boolean> {
+  const { method } = await getAuthSettings();
+  const refreshToken = method === 'password' ? await secureRetrieve(REFRESH_TOKEN_KEY) : null;
+  const serverUrl = await getActiveServerUrl();
+  if (!refreshToken || !serverUrl) {
+    return false;
+  }
+
+  try {
+    const body: RefreshTokenRequest = { refreshToken };
+    const response = await post<RefreshTokenResponse>(
+      `${serverUrl}/api/auth/refresh`,
+      body,
+      { timeout: 15000, retries: 1 }
+    );
+
+    await secureStore(ACCESS_TOKEN_KEY, response.token);
+    if (response.refreshToken) {
+      await secureStore(REFRESH_TOKEN_KEY, response.refreshToken);
+    }
+    return true;
+  } catch (error) {
+    // Refresh token expired or revoked: the user has to sign in again
+    if (error instanceof APIError && (error.statusCode === 401 || error.statusCode === 403)) {
+      await clearSession();
+      const settings = await getAuthSettings();
+      await saveAuthSettings({ ...settings, method: 'none', username: undefined });
+    }
+    return false;
+  }
+}
+
+async function clearSession() {
+  await secureRemove(ACCESS_TOKEN_KEY);
+  await secureRemove(REFRESH_TOKEN_KEY);
+}
+
+// Cached vocabulary belongs to one user; drop it when someone else signs in.
+// Refused while the previous user's outbox still holds changes, which would be lost
+async function switchUser(userId: string) {
+  const settings = await getAuthSettings();
+  if (settings.userId && settings.userId !== userId) {
+    const unsent = await db.syncQueue.count();
+    if (unsent > 0) {
+      throw new UnsyncedChangesError(
+        `${unsent} change(s) by the previous user have not been uploaded yet. Sync them, or discard the failed ones in the popup, before signing in as someone else`,
+        unsent
+      );
+    }
+    await clearUserData();
+  }
+  await saveAuthSettings({ ...settings, userId });
+}
@@ -0,0 +1,138 @@
+/**
+ * Server capability handshake
+ * Asks the server for its version and features, so the client can skip routes
+ * the server lacks and report version mismatches clearly.
+ * Servers from before the handshake are probed route by route instead
+ */
+
+import { get, post } from './client';
+import { APIError, IncompatibleServerError } from '../utils/error-handler';
+
+const CAPABILITIES_CACHE_KEY = 'serverCapabilities';
+const CAPABILITIES_TTL = 60 * 60 * 1000; // 1 hour
+const UNSUPPORTED_ROUTE_STATUSES = [404, 405, 501];
+const AUTH_REJECTED_STATUSES = [401, 403];
+
+// API versions whose records this client can read (see normalizeCollocation)
+export const MIN_API_VERSION = 1;
+export const MAX_API_VERSION = 2;
+
+export type ServerFeature = 'checkWords' | 'pagination' | 'changes' | 'auth' | 'reviews';
+
+export interface CapabilitiesResponse {
+  status: string;
+  version: string; // Server release, for display
+  apiVersion: number;
+  features: string[];
+}
+
+export interface ServerCapabilities {
+  version?: string;
+  apiVersion?: number;
+  features?: string[]; // Absent if the server predates the handshake
+  checkedAt: number;
+}
+
+interface CachedCapabilities {
+  serverUrl: string;
+  capabilities: ServerCapabilities;
+}
+
+/**
+ * Get the server's capabilities, from cache if checked within the last hour
+ * A stale entry is reused when the server cannot be reached.
+ * @param serverUrl - Server base URL
+ * @param options - refresh skips the cache
+ * @throws IncompatibleServerError if the server speaks an API version this client cannot
+ */
+export async function getServerCapabilities(
+  serverUrl: string,
+  options: { refresh?: boolean } = {}
+): Promise<ServerCapabilities> {
+  const cached = await readCache(serverUrl);
+
+  if (cached && !options.refresh && Date.now() - cached.checkedAt < CAPABILITIES_TTL) {
+    assertCompatible(cached);
+    return cached;
+  }
+
+  let capabilities: ServerCapabilities;
+  try {
+    capabilities = await fetchCapabilities(serverUrl);
+  } catch (error) {
+    if (!cached || options.refresh) throw error;
+    capabilities = cached;
+  }
+
+  await chrome.storage.local.set({
+    [CAPABILITIES_CACHE_KEY]: { serverUrl, capabilities } satisfies CachedCapabilities,
+  });
+  assertCompatible(capabilities);
+  return capabilities;
+}
+
+/**
+ * Whether the server advertises a feature
+ * Servers without the handshake are assumed to, so callers probe and fall back
+ * @param serverUrl - Server base URL
+ * @param feature - Feature name
+ */
+export async function supportsFeature(serverUrl: string, feature: ServerFeature): Promise<boolean> {
+  const { features } = await getServerCapabilities(serverUrl);
+  return !features || features.includes(feature);
+}
+
+async function fetchCapabilities(serverUrl: string): Promise<ServerCapabilities> {
+  try {
+    const response = await get<CapabilitiesResponse>(
+      `${serverUrl}/api/capabilities`,
+      { timeout: 5000, retries: 0, auth: true }
+    );
+
+    return {
+      version: response.version,
+      apiVersion: Number(response.apiVersion) || MIN_API_VERSION,
+      features: Array.isArray(response.features) ? response.features : [],
+      checkedAt: Date.now(),
+    };
+  } catch (error) {
+    if (!(error instanceof APIError && UNSUPPORTED_ROUTE_STATUSES.includes(error.statusCode ?? 0))) {
+      throw error;
+    }
+
+    // No handshake route: an older server, as long as the API itself answers.
+    // Rejected credentials count as an answer, or nobody could reach the sign-in form's server
+    try {
+      await post(`${serverUrl}/api/check-word`, { word: 'test' }, { timeout: 5000, retries: 0, auth: true });
+    } catch (probeError) {
+      if (!(probeError instanceof APIError && AUTH_REJECTED_STATUSES.includes(probeError.statusCode ?? 0))) {
+        throw probeError;
+      }
+    }
+    return { checkedAt: Date.now() };
+  }
+}
+
+async function readCache(serverUrl: string): Promise<ServerCapabilities | null> {
+  const result = await chrome.storage.local.get(CAPABILITIES_CACHE_KEY);
+  const cached = result[CAPABILITIES_CACHE_KEY] as CachedCapabilities | undefined;
+  return cached?.serverUrl === serverUrl ? cached.capabilities : null;
+}
+
+function assertCompatible(capabilities: ServerCapabilities) {
+  const { apiVersion, version } = capabilities;
+  if (apiVersion === undefined) return;
+
+  if (apiVersion > MAX_API_VERSION) {
+    throw new IncompatibleServerError(
+      `The server uses API v${apiVersion}, which this extension does not support yet (v${MIN_API_VERSION}–v${MAX_API_VERSION}). Please update the extension`,
+      version
+    );
+  }
+  if (apiVersion < MIN_API_VERSION) {
+    throw new IncompatibleServerError(
+      `The server uses API v${apiVersion}, which is too old for this extension (v${MIN_API_VERSION}–v${MAX_API_VERSION}). Please update the server`,
+      version
+    );
+  }
+}
@@ -1,22 +1,77 @@
 /**
  * HTTP client with timeout, retry logic, and error handling
- * Replaces all fetch calls with a robust implementation
+ * Every attempt runs through a middleware chain (logging, rate limiter, metrics,
+ * circuit breaker, auth, custom middleware, mocks) before it reaches fetch
  */
 
-import { NetworkError, TimeoutError, APIError } from '../utils/error-handler';
+import { NetworkError, TimeoutError, APIError, RateLimitError } from '../utils/error-handler';
+import {
+  authMiddleware,
+  circuitBreakerMiddleware,
+  loggingMiddleware,
+  metricsMiddleware,
+  mockMiddleware,
+  parseRetryAfter,
+  rateLimitMiddleware,
+} from './middleware';
+
+export { getRequestMetrics, setMockHandler } from './middleware';
+export type { HostMetrics, MockHandler } from './middleware';
+
+export type ResponseType = 'json' | 'blob' | 'text';
+
+// Longer Retry-After waits are left to the caller (e.g. generation pauses instead)
+const MAX_RETRY_AFTER = 60000;
 
 export interface RequestOptions extends RequestInit {
   timeout?: number; // Timeout in milliseconds (default: 30000)
   retries?: number; // Number of retry attempts (default: 3)
   retryDelay?: number; // Initial retry delay in ms (default: 1000)
   retryOn?: number[]; // HTTP status codes to retry on (default: [408, 429, 500, 502, 503, 504])
+  auth?: boolean; // Send the vocabulary server credentials (never set for third-party hosts)
+  responseType?: ResponseType; // How to read the response body (default: json)
+}
+
+/**
+ * One request attempt as seen by middleware
+ */
+export interface RequestContext {
+  url: string;
+  init: RequestInit & { method: string; headers: Record<string, string> };
+  auth: boolean; // Request wants the server credentials
+  timeout: number;
+  attempt: number; // 0 for the first try
+}
+
+export type Next = (context: RequestContext) => Promise<Response>;
+
+/**
+ * Request/response interceptor: may change the context before calling next,
+ * inspect or replace the response, or answer without calling next
+ */
+export type Middleware = (context: RequestContext, next: Next) => Promise<Response>;
+
+const customMiddleware: Middleware[] = [];
+
+/**
+ * Add middleware to every request
+ * Runs inside the built-in middleware, just before mocks and the network
+ * @param middleware - Middleware to add
+ * @returns Function that removes it again
+ */
+export function useMiddleware(middleware: Middleware): () => void {
+  customMiddleware.push(middleware);
+  return () => {
+    const index = customMiddleware.indexOf(middleware);
+    if (index >= 0) customMiddleware.splice(index, 1);
+  };
 }
 
 /**
  * Make an HTTP request with timeout and retry logic
  * @param url - Request URL
  * @param options - Request options
- * @returns Response data
+ * @returns Response data, read as options.responseType
  */
 export async function apiRequest<T = unknown>(
   url: string,
@@ -27,6 +82,8 @@ export async function apiRequest<T = unknown>(
     retries = 3,
     retryDelay = 1000,
     retryOn = [408, 429, 500, 502, 503, 504],
+    auth = false,
+    responseType = 'json',
     ...fetchOptions
   } = options;
 
@@ -34,16 +91,32 @@ export async function apiRequest<T = unknown>(
 
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
-      const response = await fetchWithTimeout(url, fetchOptions, timeout);
+      const response = await runChain({
+        url,
+        init: {
+          ...fetchOptions,
+          method: fetchOptions.method || 'GET',
+          headers: Object.fromEntries(new Headers(fetchOptions.headers)),
+        },
+        auth,
+        timeout,
+        attempt,
+      });
 
       // Check if response is OK
       if (!response.ok) {
-        // Check if we should retry this status code
-        if (attempt < retries && retryOn.includes(response.status)) {
-          await delay(retryDelay * Math.pow(2, attempt)); // Exponential backoff
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+
+        // Check if we should retry this status code, waiting as long as the server asks
+        if (attempt < retries && retryOn.includes(response.status) && (retryAfter ?? 0) <= MAX_RETRY_AFTER) {
+          await delay(retryAfter ?? retryDelay * Math.pow(2, attempt)); // Exponential backoff
           continue;
         }
 
+        if (response.status === 429) {
+          throw new RateLimitError(`HTTP 429: ${response.statusText}`, retryAfter, url);
+        }
+
         throw new APIError(
           `HTTP ${response.status}: ${response.statusText}`,
           response.status,
@@ -51,9 +124,7 @@ export async function apiRequest<T = unknown>(
         );
       }
 
-      // Parse response
-      const data = await response.json();
-      return data as T;
+      return (await readBody(response, responseType)) as T;
     } catch (error) {
       lastError = error as Error;
 
@@ -75,7 +146,7 @@ export async function apiRequest<T = unknown>(
 
   // If we get here, all retries failed
   if (lastError) {
-    if (lastError instanceof TimeoutError || lastError instanceof APIError) {
+    if (lastError instanceof TimeoutError || lastError instanceof APIError || lastError instanceof NetworkError) {
       throw lastError;
     }
     throw new NetworkError(lastError.message);
@@ -84,20 +155,48 @@ export async function apiRequest<T = unknown>(
   throw new NetworkError('Request failed');
 }
 
+// Built-in middleware outermost, mocks innermost so they still pass through auth, metrics and the breaker
+function runChain(context: RequestContext): Promise<Response> {
+  const chain: Middleware[] = [
+    loggingMiddleware,
+    rateLimitMiddleware,
+    metricsMiddleware,
+    circuitBreakerMiddleware,
+    authMiddleware,
+    ...customMiddleware,
+    mockMiddleware,
+  ];
+
+  const dispatch = (index: number, current: RequestContext): Promise<Response> =>
+    index < chain.length
+      ? chain[index](current, forwarded => dispatch(index + 1, forwarded))
+      : fetchWithTimeout(current);
+
+  return dispatch(0, context);
+}
+
+async function readBody(response: Response, responseType: ResponseType): Promise<unknown> {
+  switch (responseType) {
+    case 'blob':
+      return response.blob();
+    case 'text':
+      return response.text();
+    default:
+      return response.json();
+  }
+}
+
 /**
  * Fetch with timeout using AbortController
  */
-async function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  timeout: number
-): Promise<Response> {
+async function fetchWithTimeout(context: RequestContext): Promise<Response> {
+  const { url, init, timeout } = context;
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
   try {
     const response = await fetch(url, {
-      ...options,
+      ...init,
       signal: controller.signal,
     });
     clearTimeout(timeoutId);
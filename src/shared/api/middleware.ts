@@ -0,0 +1,247 @@
+/**
+ * Built-in HTTP client middleware
+ * Each middleware sees one request attempt and the response it produced;
+ * the chain and its order are in client.ts
+ */
+
+import { NetworkError, RateLimitError } from '../utils/error-handler';
+import { getAuthHeaders, refreshAuth } from './auth';
+import type { Next, RequestContext } from './client';
+
+const CIRCUIT_FAILURE_THRESHOLD = 5; // Consecutive failures before a host is skipped
+const CIRCUIT_COOLDOWN = 30000; // ms before one trial request is let through
+const MAX_RATE_LIMIT_WAIT = 60000; // Longer waits fail with RateLimitError instead
+
+interface RateLimit {
+  capacity: number; // Burst size
+  perMinute: number; // Sustained requests per minute
+}
+
+// Conservative limits for hosts with known quotas (Gemini: free tier)
+const HOST_RATE_LIMITS: Record<string, RateLimit> = {
+  'generativelanguage.googleapis.com': { capacity: 2, perMinute: 10 },
+  'api.openai.com': { capacity: 5, perMinute: 60 },
+};
+const DEFAULT_RATE_LIMIT: RateLimit = { capacity: 20, perMinute: 600 };
+
+export interface HostMetrics {
+  requests: number;
+  failures: number; // Network errors, timeouts and 5xx responses
+  totalDuration: number; // ms
+  lastStatus?: number;
+}
+
+/**
+ * Answers requests instead of the network, e.g. in tests or demos
+ * Return undefined to let the request through
+ */
+export type MockHandler = (context: RequestContext) => Response | undefined | Promise<Response | undefined>;
+
+interface TokenBucket {
+  tokens: number; // Negative while requests are waiting for their turn
+  updatedAt: number;
+  blockedUntil?: number; // Set by a Retry-After header
+}
+
+interface CircuitState {
+  failures: number;
+  openedAt?: number;
+}
+
+const metrics = new Map<string, HostMetrics>();
+const circuits = new Map<string, CircuitState>();
+const buckets = new Map<string, TokenBucket>();
+let mockHandler: MockHandler | null = null;
+
+/**
+ * Add the server credentials to requests marked auth, refreshing an expired token once
+ */
+export async function authMiddleware(context: RequestContext, next: Next): Promise<Response> {
+  if (!context.auth) {
+    return next(context);
+  }
+
+  const send = async () => next({
+    ...context,
+    init: { ...context.init, headers: { ...context.init.headers, ...(await getAuthHeaders()) } },
+  });
+
+  const response = await send();
+  // Expired access token: refresh and repeat this attempt
+  if (response.status === 401 && (await refreshAuth())) {
+    return send();
+  }
+  return response;
+}
+
+/**
+ * Log each attempt at debug level, without credentials
+ */
+export async function loggingMiddleware(context: RequestContext, next: Next): Promise<Response> {
+  const label = `${context.init.method} ${redactUrl(context.url)}`;
+  const startedAt = Date.now();
+
+  try {
+    const response = await next(context);
+    console.debug(`[http] ${label} → ${response.status} (${Date.now() - startedAt} ms)`);
+    return response;
+  } catch (error) {
+    console.debug(`[http] ${label} failed after ${Date.now() - startedAt} ms:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Token bucket per host: wait for a free slot, and hold the host back as long as a
+ * 429/503 Retry-After header asks
+ */
+export async function rateLimitMiddleware(context: RequestContext, next: Next): Promise<Response> {
+  const host = hostOf(context.url);
+  const limit = HOST_RATE_LIMITS[host] || DEFAULT_RATE_LIMIT;
+  const bucket = buckets.get(host) || { tokens: limit.capacity, updatedAt: Date.now() };
+  buckets.set(host, bucket);
+
+  const wait = reserveToken(bucket, limit);
+  if (wait > MAX_RATE_LIMIT_WAIT) {
+    bucket.tokens++; // Give the slot back
+    throw new RateLimitError(`${host} rate limit reached`, wait, context.url);
+  }
+  if (wait > 0) {
+    await new Promise(resolve => setTimeout(resolve, wait));
+  }
+
+  const response = await next(context);
+  if (response.status === 429 || response.status === 503) {
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter !== undefined) {
+      bucket.blockedUntil = Math.max(bucket.blockedUntil ?? 0, Date.now() + retryAfter);
+    }
+  }
+  return response;
+}
+
+/**
+ * Count requests, failures and time spent per host
+ */
+export async function metricsMiddleware(context: RequestContext, next: Next): Promise<Response> {
+  const host = hostOf(context.url);
+  const entry = metrics.get(host) || { requests: 0, failures: 0, totalDuration: 0 };
+  const startedAt = Date.now();
+  entry.requests++;
+  metrics.set(host, entry);
+
+  try {
+    const response = await next(context);
+    entry.lastStatus = response.status;
+    if (response.status >= 500) entry.failures++;
+    return response;
+  } catch (error) {
+    entry.failures++;
+    throw error;
+  } finally {
+    entry.totalDuration += Date.now() - startedAt;
+  }
+}
+
+/**
+ * Stop calling a host that keeps failing, then let one trial request through after a cooldown
+ */
+export async function circuitBreakerMiddleware(context: RequestContext, next: Next): Promise<Response> {
+  const host = hostOf(context.url);
+  const circuit = circuits.get(host) || { failures: 0 };
+
+  if (circuit.openedAt !== undefined) {
+    if (Date.now() - circuit.openedAt < CIRCUIT_COOLDOWN) {
+      throw new NetworkError(`${host} is failing repeatedly; requests are paused for a moment`);
+    }
+    circuit.openedAt = Date.now(); // Half-open: this request is the trial
+  }
+
+  try {
+    const response = await next(context);
+    recordOutcome(host, circuit, response.status < 500);
+    return response;
+  } catch (error) {
+    recordOutcome(host, circuit, false);
+    throw error;
+  }
+}
+
+/**
+ * Serve mocked responses when a mock handler is set
+ */
+export async function mockMiddleware(context: RequestContext, next: Next): Promise<Response> {
+  const mocked = mockHandler ? await mockHandler(context) : undefined;
+  return mocked ?? next(context);
+}
+
+/**
+ * Answer matching requests without the network
+ * @param handler - Mock handler, or null to remove it
+ */
+export function setMockHandler(handler: MockHandler | null): void {
+  mockHandler = handler;
+}
+
+/**
+ * Request counters per host since this context started
+ */
+export function getRequestMetrics(): Record<string, HostMetrics> {
+  return Object.fromEntries([...metrics].map(([host, entry]) => [host, { ...entry }]));
+}
+
+/**
+ * Read a Retry-After header (seconds or an HTTP date)
+ * @param header - Header value
+ * @returns Wait in ms, or undefined if absent or unreadable
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Take one token, refilling for the time passed; returns ms until the request may go
+function reserveToken(bucket: TokenBucket, limit: RateLimit): number {
+  const now = Date.now();
+  const perMs = limit.perMinute / 60000;
+
+  bucket.tokens = Math.min(limit.capacity, bucket.tokens + (now - bucket.updatedAt) * perMs);
+  bucket.updatedAt = now;
+  bucket.tokens--;
+
+  const refillWait = bucket.tokens < 0 ? -bucket.tokens / perMs : 0;
+  return Math.max(refillWait, (bucket.blockedUntil ?? 0) - now);
+}
+
+function recordOutcome(host: string, circuit: CircuitState, ok: boolean) {
+  if (ok) {
+    circuits.delete(host);
+    return;
+  }
+
+  circuit.failures++;
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openedAt = Date.now();
+  }
+  circuits.set(host, circuit);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+// API keys can travel in the query string (Gemini)
+function redactUrl(url: string): string {
+  return url.replace(/([?&](?:key|token|api_key)=)[^&]*/gi, '$1…');
+}
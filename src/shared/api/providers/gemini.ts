@@ -0,0 +1,91 @@
+/**
+ * Google Gemini AI provider
+ */
+
+import { post } from '../client';
+import { retrieveProviderApiKey } from '../../security/keychain';
+import { ConfigError } from '../../utils/error-handler';
+import type { AIProvider, AIProviderSettings, Completion, CompletionOptions, JsonSchema } from './types';
+
+export interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string;
+      }>;
+    };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+/**
+ * Create a Gemini provider
+ * @param settings - Model name and API base URL
+ */
+export function createGeminiProvider(settings: AIProviderSettings): AIProvider {
+  return {
+    id: 'gemini',
+
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<Completion> {
+      const apiKey = await retrieveProviderApiKey('gemini');
+
+      if (!apiKey) {
+        throw new ConfigError('AI API Key not configured');
+      }
+
+      const response = await post<GeminiResponse>(
+        `${settings.baseUrl}/models/${settings.model}:generateContent?key=${apiKey}`,
+        {
+          contents: [
+            {
+              parts: [{ text: prompt }],
+            },
+          ],
+          generationConfig: options.responseSchema
+            ? {
+                responseMimeType: 'application/json',
+                responseSchema: toGeminiSchema(options.responseSchema),
+              }
+            : undefined,
+        },
+        { timeout: options.timeout ?? 60000, retries: options.retries ?? 1 }
+      );
+
+      const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
+
+      if (!text) {
+        throw new Error('No response from AI');
+      }
+
+      const usage = response.usageMetadata;
+      return {
+        text,
+        usage: usage && {
+          promptTokens: usage.promptTokenCount ?? 0,
+          outputTokens: usage.candidatesTokenCount ?? 0,
+          totalTokens: usage.totalTokenCount ?? 0,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Gemini expects OpenAPI-style upper-case type names
+ */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  return {
+    type: schema.type.toUpperCase(),
+    ...(schema.properties && {
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+      ),
+    }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.required && { required: schema.required }),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * AI provider registry
+ * Resolves the provider selected in the options page
+ */
+
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createOllamaProvider } from './ollama';
+import type { AIProvider, AIProviderConfig, AIProviderId, AIProviderSettings } from './types';
+import { activeSettingKey } from '../../profiles/active';
+
+export type { AIProvider, AIProviderConfig, AIProviderId, AIProviderSettings, Completion, TokenUsage } from './types';
+
+const CONFIG_STORAGE_KEY = 'aiProvider';
+
+export const AI_PROVIDER_IDS: AIProviderId[] = ['gemini', 'openai', 'ollama'];
+
+export const DEFAULT_PROVIDER_SETTINGS: Record<AIProviderId, AIProviderSettings> = {
+  gemini: {
+    model: 'gemini-2.5-flash',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    dailyRequestLimit: 250, // Free tier
+  },
+  openai: {
+    model: 'gpt-4o-mini',
+    baseUrl: 'https://api.openai.com/v1',
+  },
+  ollama: {
+    model: 'llama3.1',
+    baseUrl: 'http://localhost:11434',
+  },
+};
+
+const factories: Record<AIProviderId, (settings: AIProviderSettings) => AIProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  ollama: createOllamaProvider,
+};
+
+/**
+ * Create a provider instance
+ * @param id - Provider id
+ * @param settings - Model name and base URL
+ */
+export function createAIProvider(id: AIProviderId, settings: AIProviderSettings): AIProvider {
+  return factories[id]({
+    ...settings,
+    baseUrl: settings.baseUrl.replace(/\/+$/, ''),
+  });
+}
+
+/**
+ * Get provider configuration from storage, filled with defaults
+ */
+export async function getAIProviderConfig(): Promise<AIProviderConfig> {
+  const key = await activeSettingKey(CONFIG_STORAGE_KEY);
+  const result = await chrome.storage.sync.get(key);
+  const stored = result[key] as Partial<AIProviderConfig> | undefined;
+
+  const providers = { ...DEFAULT_PROVIDER_SETTINGS };
+  for (const id of AI_PROVIDER_IDS) {
+    providers[id] = { ...providers[id], ...stored?.providers?.[id] };
+  }
+
+  const active = stored?.active && AI_PROVIDER_IDS.includes(stored.active) ? stored.active : 'gemini';
+
+  return { active, providers };
+}
+
+/**
+ * Save provider configuration
+ * @param config - Active provider and per-provider settings
+ */
+export async function saveAIProviderConfig(config: AIProviderConfig): Promise<void> {
+  await chrome.storage.sync.set({ [await activeSettingKey(CONFIG_STORAGE_KEY)]: config });
+}
+
+/**
+ * Get the provider selected in the options page
+ */
+export async function getActiveAIProvider(): Promise<AIProvider> {
+  const config = await getAIProviderConfig();
+  return createAIProvider(config.active, config.providers[config.active]);
+}
@@ -0,0 +1,49 @@
+/**
+ * Local Ollama-style HTTP server provider
+ * Uses POST {baseUrl}/api/generate without streaming
+ */
+
+import { post } from '../client';
+import type { AIProvider, AIProviderSettings, Completion, CompletionOptions } from './types';
+
+export interface OllamaGenerateResponse {
+  response?: string;
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Create an Ollama provider
+ * @param settings - Model name and server base URL (e.g. http://localhost:11434)
+ */
+export function createOllamaProvider(settings: AIProviderSettings): AIProvider {
+  return {
+    id: 'ollama',
+
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<Completion> {
+      const response = await post<OllamaGenerateResponse>(
+        `${settings.baseUrl}/api/generate`,
+        {
+          model: settings.model,
+          prompt,
+          stream: false,
+          format: options.responseSchema ? 'json' : undefined,
+        },
+        // Local models are slower than hosted ones
+        { timeout: options.timeout ?? 120000, retries: options.retries ?? 0 }
+      );
+
+      if (!response.response) {
+        throw new Error('No response from AI');
+      }
+
+      const promptTokens = response.prompt_eval_count ?? 0;
+      const outputTokens = response.eval_count ?? 0;
+      return {
+        text: response.response,
+        usage: { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens },
+      };
+    },
+  };
+}
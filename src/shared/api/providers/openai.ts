@@ -0,0 +1,66 @@
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with any server exposing POST {baseUrl}/chat/completions
+ */
+
+import { post } from '../client';
+import { retrieveProviderApiKey } from '../../security/keychain';
+import type { AIProvider, AIProviderSettings, Completion, CompletionOptions } from './types';
+
+export interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * Create an OpenAI-compatible provider
+ * @param settings - Model name and API base URL (e.g. https://api.openai.com/v1)
+ */
+export function createOpenAIProvider(settings: AIProviderSettings): AIProvider {
+  return {
+    id: 'openai',
+
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<Completion> {
+      // Optional: self-hosted compatible servers often run without a key
+      const apiKey = await retrieveProviderApiKey('openai');
+
+      const response = await post<ChatCompletionResponse>(
+        `${settings.baseUrl}/chat/completions`,
+        {
+          model: settings.model,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: options.responseSchema ? { type: 'json_object' } : undefined,
+        },
+        {
+          timeout: options.timeout ?? 60000,
+          retries: options.retries ?? 1,
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        }
+      );
+
+      const text = response.choices?.[0]?.message?.content;
+
+      if (!text) {
+        throw new Error('No response from AI');
+      }
+
+      const usage = response.usage;
+      return {
+        text,
+        usage: usage && {
+          promptTokens: usage.prompt_tokens ?? 0,
+          outputTokens: usage.completion_tokens ?? 0,
+          totalTokens: usage.total_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
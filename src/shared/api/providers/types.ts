@@ -0,0 +1,50 @@
+/**
+ * AI provider abstraction
+ * Every provider turns a prompt into raw text; parsing is shared
+ */
+
+export type AIProviderId = 'gemini' | 'openai' | 'ollama';
+
+export interface AIProviderSettings {
+  model: string;
+  baseUrl: string;
+  dailyRequestLimit?: number; // Requests per day before generation pauses; 0 or unset = no limit
+  dailyTokenLimit?: number; // Tokens per day before generation pauses; 0 or unset = no limit
+}
+
+export interface AIProviderConfig {
+  active: AIProviderId;
+  providers: Record<AIProviderId, AIProviderSettings>;
+}
+
+export interface CompletionOptions {
+  timeout?: number;
+  retries?: number;
+  responseSchema?: JsonSchema; // Request structured JSON output matching this schema
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface Completion {
+  text: string;
+  usage?: TokenUsage; // When the provider reports it
+}
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface AIProvider {
+  readonly id: AIProviderId;
+  /**
+   * Send a prompt and return the model's raw text answer with its token usage
+   */
+  complete(prompt: string, options?: CompletionOptions): Promise<Completion>;
+}
@@ -0,0 +1,216 @@
+/**
+ * AI response parsing and validation
+ * Turns raw model output into per-word results with a validation report
+ */
+
+import type { ZodIssue } from 'zod';
+import { CollocationSchema, GenerationResponseSchema, WordResultSchema } from '../types/schemas';
+import { AIResponseError } from '../utils/error-handler';
+import { parseCefrLevel, splitList } from '../utils/cards';
+import { CARD_VERSION } from '../types/models';
+import type {
+  AIValidationIssue,
+  AIValidationReport,
+  Collocation,
+  WordGenerationResult,
+} from '../types/models';
+
+export interface ParsedGeneration {
+  results: WordGenerationResult[];
+  report: AIValidationReport;
+}
+
+/**
+ * Parse and validate the text returned by the AI
+ * Envelope-level problems throw AIResponseError; per-word problems are reported in the results
+ * @param text - Raw model output (JSON, possibly wrapped in markdown)
+ * @param words - Words that were sent in the request
+ * @returns One result per requested word, in request order, plus the validation report
+ */
+export function parseGenerationText(text: string, words: string[]): ParsedGeneration {
+  const report: AIValidationReport = { issues: [], accepted: 0, repaired: 0, rejected: 0 };
+
+  const envelope = GenerationResponseSchema.safeParse(extractJson(text));
+
+  if (!envelope.success) {
+    report.issues.push(...toIssues('', envelope.error.issues));
+    throw new AIResponseError('AI response does not contain a "results" array', report);
+  }
+
+  // Index entries by source word (case-insensitive)
+  const byWord = new Map<string, { lemma?: string; collocations: unknown[] }>();
+
+  envelope.data.results.forEach((raw, index) => {
+    const entry = WordResultSchema.safeParse(raw);
+    if (entry.success) {
+      byWord.set(entry.data.word.toLowerCase(), entry.data);
+    } else {
+      report.issues.push(...toIssues('', entry.error.issues, index));
+    }
+  });
+
+  const results = words.map(word => {
+    const entry = byWord.get(word.toLowerCase());
+
+    if (!entry) {
+      const issue: AIValidationIssue = {
+        word,
+        field: 'word',
+        message: 'No result returned for this word',
+        action: 'rejected',
+      };
+      report.issues.push(issue);
+      return { word, lemma: word, collocations: [], error: issue.message, issues: [issue] };
+    }
+
+    return validateWordEntry(word, entry, report);
+  });
+
+  return { results, report };
+}
+
+/**
+ * Validate one word's collocations, repairing what can be repaired
+ */
+function validateWordEntry(
+  word: string,
+  entry: { lemma?: string; collocations: unknown[] },
+  report: AIValidationReport
+): WordGenerationResult {
+  const issues: AIValidationIssue[] = [];
+  const collocations: Collocation[] = [];
+
+  entry.collocations.forEach((raw, index) => {
+    const repairs = repairCollocation(raw);
+    const parsed = CollocationSchema.safeParse(repairs.value);
+
+    if (!parsed.success) {
+      issues.push(...toIssues(word, parsed.error.issues, index));
+      report.rejected++;
+      return;
+    }
+
+    for (const field of repairs.fields) {
+      issues.push({ word, index, field, message: `Repaired ${field}`, action: 'repaired' });
+    }
+    if (repairs.fields.length > 0) {
+      report.repaired++;
+    }
+
+    report.accepted++;
+    collocations.push({
+      ...parsed.data,
+      version: CARD_VERSION,
+      headword: parsed.data.headword || entry.lemma || word,
+    });
+  });
+
+  report.issues.push(...issues);
+
+  const result: WordGenerationResult = {
+    word,
+    lemma: entry.lemma || word,
+    collocations,
+    issues: issues.length > 0 ? issues : undefined,
+  };
+
+  if (collocations.length === 0) {
+    result.error = describeRejection(issues);
+  }
+
+  return result;
+}
+
+/**
+ * Fix common formatting slips in a raw collocation
+ * @returns The repaired value and the names of the fields that were changed
+ */
+function repairCollocation(raw: unknown): { value: unknown; fields: string[] } {
+  if (!raw || typeof raw !== 'object') {
+    return { value: raw, fields: [] };
+  }
+
+  const value = { ...(raw as Record<string, unknown>) };
+  const fields: string[] = [];
+
+  // Lists sent as a comma-separated string instead of an array
+  for (const field of ['synonyms', 'antonyms', 'examples', 'tags']) {
+    if (typeof value[field] === 'string') {
+      value[field] = field === 'examples' ? [value[field]] : splitList(value[field]);
+      fields.push(field);
+    }
+  }
+
+  // CEFR level in the wrong case or outside A1-C2
+  if (value.cefrLevel !== undefined && value.cefrLevel !== parseCefrLevel(value.cefrLevel)) {
+    value.cefrLevel = parseCefrLevel(value.cefrLevel);
+    fields.push('cefrLevel');
+  }
+
+  // IPA without surrounding slashes
+  if (typeof value.ipa === 'string') {
+    const ipa = value.ipa.trim();
+    if (ipa && !/^[/[].*[/\]]$/.test(ipa)) {
+      value.ipa = `/${ipa.replace(/^\/|\/$/g, '')}/`;
+      fields.push('ipa');
+    }
+  }
+
+  return { value, fields };
+}
+
+/**
+ * Extract JSON from model output (may be wrapped in markdown code blocks)
+ */
+function extractJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+
+    if (!jsonMatch) {
+      throw new AIResponseError('No JSON found in AI response', {
+        issues: [{ word: '', field: '$', message: 'No JSON object in response', action: 'rejected' }],
+        accepted: 0,
+        repaired: 0,
+        rejected: 0,
+      });
+    }
+
+    try {
+      return JSON.parse(jsonMatch[0]);
+    } catch (error) {
+      throw new AIResponseError('AI response is not valid JSON', {
+        issues: [{ word: '', field: '$', message: (error as Error).message, action: 'rejected' }],
+        accepted: 0,
+        repaired: 0,
+        rejected: 0,
+      });
+    }
+  }
+}
+
+/**
+ * Convert zod issues into report issues
+ */
+function toIssues(word: string, zodIssues: ZodIssue[], index?: number): AIValidationIssue[] {
+  return zodIssues.map(issue => ({
+    word,
+    index,
+    field: issue.path.join('.') || '$',
+    message: issue.message,
+    action: 'rejected' as const,
+  }));
+}
+
+/**
+ * Summarize why every collocation for a word was rejected
+ */
+function describeRejection(issues: AIValidationIssue[]): string {
+  const fields = [...new Set(issues.filter(i => i.action === 'rejected').map(i => i.field))];
+
+  if (fields.length === 0) {
+    return 'No collocations generated';
+  }
+  return `All collocations rejected (invalid ${fields.join(', ')})`;
+}
@@ -3,16 +3,35 @@
  * Consolidates all API calls to vocabulary-server
  */
 
-import { post, get } from './client';
-import type { Collocation } from '../types/models';
+import { post, get, put, del } from './client';
+import { getServerCapabilities, supportsFeature } from './capabilities';
+import type { ServerCapabilities } from './capabilities';
+import { APIError } from '../utils/error-handler';
+import { cacheWordExistence } from '../cache/strategies';
+import { getActiveServerUrl } from '../profiles/active';
+import type { Collocation, CollocationChanges, ReviewLogEntry } from '../types/models';
+import { normalizeCollocation, toServerCollocation } from '../utils/cards';
+import type { ServerCollocation } from '../utils/cards';
+
+// Statuses older servers answer for routes they do not have
+const UNSUPPORTED_ROUTE_STATUSES = [404, 405, 501];
 
 export interface CheckWordResponse {
   status: string;
   exists: boolean;
 }
 
+export interface CheckWordsRequest {
+  words: string[];
+}
+
+export interface CheckWordsResponse {
+  status: string;
+  results: Record<string, boolean>; // Existence keyed by word
+}
+
 export interface AddCollocationsRequest {
-  collocations: Collocation[];
+  collocations: ServerCollocation[];
 }
 
 export interface AddCollocationsResponse {
@@ -21,6 +40,20 @@ export interface AddCollocationsResponse {
   message: string;
 }
 
+export interface UpdateCollocationRequest {
+  changes: Partial<ServerCollocation>;
+}
+
+export interface UpdateCollocationResponse {
+  status: string;
+  data: unknown; // Updated record; see normalizeCollocation()
+}
+
+export interface DeleteCollocationResponse {
+  status: string;
+  deletedCount: number;
+}
+
 export interface DeleteAllResponse {
   status: string;
   deletedCount: number;
@@ -30,32 +63,195 @@ export interface DeleteAllResponse {
 export interface GetCollocationsResponse {
   status: string;
   count: number;
-  data: Collocation[];
+  data: unknown[]; // v1 or v2 records; see normalizeCollocation()
+  total?: number; // Matches across all pages (paging servers only)
+  nextCursor?: string | null; // Opaque cursor for the next page (paging servers only)
+}
+
+export interface CollocationPageQuery {
+  limit?: number;
+  offset?: number; // Ignored when cursor is set
+  cursor?: string; // nextCursor from the previous page
+  headword?: string;
+  createdAfter?: Date;
+}
+
+export interface CollocationPage {
+  items: Collocation[];
+  total?: number;
+  nextCursor?: string;
+}
+
+export interface CollocationChangesResponse {
+  status: string;
+  data: unknown[]; // Records added or changed since the token
+  deleted?: string[]; // Ids removed since the token
+  token: string; // Pass as `since` on the next call
+}
+
+export interface CollocationDelta {
+  updated: Collocation[];
+  deleted: string[];
+  token: string;
+}
+
+export interface AddReviewsRequest {
+  reviews: ReviewLogEntry[];
+}
+
+export interface AddReviewsResponse {
+  status: string;
+  insertedCount: number;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  capabilities?: ServerCapabilities;
+  error?: string; // Why the server cannot be used
 }
 
 /**
  * Get server URL from storage
+ * Also makes sure the server speaks a compatible API version (cached handshake)
  */
 async function getServerUrl(): Promise<string> {
-  const result = await chrome.storage.sync.get('serverUrl');
-  if (!result.serverUrl) {
+  const serverUrl = await getActiveServerUrl();
+  if (!serverUrl) {
     throw new Error('Server URL not configured');
   }
-  return result.serverUrl;
+  await getServerCapabilities(serverUrl);
+  return serverUrl;
+}
+
+// Page size used when walking the whole list
+const COLLOCATION_PAGE_SIZE = 500;
+
+// Batch existence checks
+const CHECK_BATCH_WINDOW = 25; // ms to wait for more lookups before sending
+const MAX_CHECK_BATCH_SIZE = 100;
+const FALLBACK_CONCURRENCY = 5;
+
+interface PendingCheck {
+  resolve: (exists: boolean) => void;
+  reject: (error: unknown) => void;
 }
 
+// Lookups waiting for the current batch window, keyed by word
+let pendingChecks = new Map<string, PendingCheck[]>();
+let checkBatchTimer: ReturnType<typeof setTimeout> | undefined;
+// Servers that answered the batch route as missing
+const batchRouteUnsupported = new Set<string>();
+
 /**
  * Check if a word exists in the database
+ * Concurrent lookups within a short window are sent as one batch request
  * @param word - The word to check
  * @returns true if word exists
  */
-export async function checkWordExists(word: string): Promise<boolean> {
+export function checkWordExists(word: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const waiting = pendingChecks.get(word) || [];
+    waiting.push({ resolve, reject });
+    pendingChecks.set(word, waiting);
+
+    if (pendingChecks.size >= MAX_CHECK_BATCH_SIZE) {
+      flushPendingChecks();
+    } else if (checkBatchTimer === undefined) {
+      checkBatchTimer = setTimeout(flushPendingChecks, CHECK_BATCH_WINDOW);
+    }
+  });
+}
+
+/**
+ * Check existence of many words
+ * Uses the batch route, or per-word requests against servers without it.
+ * Every result is written to the word cache
+ * @param words - Words to check
+ * @returns Existence keyed by word
+ */
+export async function checkWordsExist(words: string[]): Promise<Record<string, boolean>> {
+  const unique = [...new Set(words)];
+  const results: Record<string, boolean> = {};
+
+  for (let i = 0; i < unique.length; i += MAX_CHECK_BATCH_SIZE) {
+    const chunk = unique.slice(i, i + MAX_CHECK_BATCH_SIZE);
+    Object.assign(results, await checkChunk(chunk));
+  }
+
+  await cacheWordExistence(results);
+  return results;
+}
+
+// Send every lookup collected in the current window
+function flushPendingChecks() {
+  clearTimeout(checkBatchTimer);
+  checkBatchTimer = undefined;
+
+  const batch = pendingChecks;
+  pendingChecks = new Map();
+
+  checkWordsExist([...batch.keys()])
+    .then(results => {
+      for (const [word, waiting] of batch) {
+        waiting.forEach(check => check.resolve(results[word] ?? false));
+      }
+    })
+    .catch(error => {
+      for (const waiting of batch.values()) {
+        waiting.forEach(check => check.reject(error));
+      }
+    });
+}
+
+async function checkChunk(words: string[]): Promise<Record<string, boolean>> {
+  const serverUrl = await getServerUrl();
+
+  if (!batchRouteUnsupported.has(serverUrl) && (await supportsFeature(serverUrl, 'checkWords'))) {
+    try {
+      const body: CheckWordsRequest = { words };
+
+      const response = await post<CheckWordsResponse>(
+        `${serverUrl}/api/check-words`,
+        body,
+        { timeout: 15000, retries: 2, auth: true }
+      );
+
+      return Object.fromEntries(words.map(word => [word, !!response.results?.[word]]));
+    } catch (error) {
+      // Older servers only have the single-word route
+      if (!(error instanceof APIError && UNSUPPORTED_ROUTE_STATUSES.includes(error.statusCode ?? 0))) {
+        throw error;
+      }
+      batchRouteUnsupported.add(serverUrl);
+    }
+  }
+
+  return checkWordsIndividually(words);
+}
+
+// Per-word fallback with a few requests in flight
+async function checkWordsIndividually(words: string[]): Promise<Record<string, boolean>> {
+  const results: Record<string, boolean> = {};
+  let next = 0;
+
+  const worker = async () => {
+    while (next < words.length) {
+      const word = words[next++];
+      results[word] = await checkSingleWord(word);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(FALLBACK_CONCURRENCY, words.length) }, worker));
+  return results;
+}
+
+async function checkSingleWord(word: string): Promise<boolean> {
   const serverUrl = await getServerUrl();
 
   const response = await post<CheckWordResponse>(
     `${serverUrl}/api/check-word`,
     { word },
-    { timeout: 10000, retries: 2 }
+    { timeout: 10000, retries: 2, auth: true }
   );
 
   return response.exists || false;
@@ -71,29 +267,90 @@ export async function addCollocations(
 ): Promise<AddCollocationsResponse> {
   const serverUrl = await getServerUrl();
 
+  const body: AddCollocationsRequest = {
+    collocations: collocations.map(toServerCollocation),
+  };
+
   return await post<AddCollocationsResponse>(
     `${serverUrl}/api/add-collocations`,
-    { collocations },
-    { timeout: 30000, retries: 2 }
+    body,
+    { timeout: 30000, retries: 2, auth: true }
   );
 }
 
 /**
- * Export all collocations as CSV
- * @returns CSV blob
+ * Update fields of one collocation
+ * @param id - Server id
+ * @param changes - Fields to change
+ * @returns The updated collocation
  */
-export async function exportCSV(): Promise<Blob> {
+export async function updateCollocation(id: string, changes: CollocationChanges): Promise<Collocation> {
   const serverUrl = await getServerUrl();
 
-  const response = await fetch(`${serverUrl}/api/export-csv`, {
-    method: 'GET',
-  });
+  const body: UpdateCollocationRequest = {
+    changes: {
+      ...changes,
+      synonyms: changes.synonyms ? changes.synonyms.join(', ') : undefined,
+    },
+  };
+
+  const response = await put<UpdateCollocationResponse>(
+    `${serverUrl}/api/collocations/${encodeURIComponent(id)}`,
+    body,
+    { timeout: 15000, retries: 2, auth: true }
+  );
+
+  return normalizeCollocation(response.data);
+}
+
+/**
+ * Delete one collocation
+ * @param id - Server id
+ * @returns Response with deleted count
+ */
+export async function deleteCollocation(id: string): Promise<DeleteCollocationResponse> {
+  const serverUrl = await getServerUrl();
 
-  if (!response.ok) {
-    throw new Error('Failed to export CSV');
+  try {
+    return await del<DeleteCollocationResponse>(
+      `${serverUrl}/api/collocations/${encodeURIComponent(id)}`,
+      { timeout: 15000, retries: 2, auth: true }
+    );
+  } catch (error) {
+    // Already gone (e.g. a replayed delete): the outcome is the same
+    if (error instanceof APIError && error.statusCode === 404) {
+      return { status: 'success', deletedCount: 0 };
+    }
+    throw error;
   }
+}
 
-  return await response.blob();
+/**
+ * Upload review history entries
+ * @param reviews - Review log entries recorded in the extension
+ * @returns Response with inserted count
+ */
+export async function addReviews(reviews: ReviewLogEntry[]): Promise<AddReviewsResponse> {
+  const serverUrl = await getServerUrl();
+  if (!(await supportsFeature(serverUrl, 'reviews'))) {
+    return { status: 'unsupported', insertedCount: 0 };
+  }
+
+  const body: AddReviewsRequest = { reviews };
+
+  try {
+    return await post<AddReviewsResponse>(
+      `${serverUrl}/api/reviews`,
+      body,
+      { timeout: 15000, retries: 2, auth: true }
+    );
+  } catch (error) {
+    // Servers without review sync: the history stays in the extension only
+    if (error instanceof APIError && UNSUPPORTED_ROUTE_STATUSES.includes(error.statusCode ?? 0)) {
+      return { status: 'unsupported', insertedCount: 0 };
+    }
+    throw error;
+  }
 }
 
 /**
@@ -106,35 +363,143 @@ export async function deleteAll(): Promise<DeleteAllResponse> {
   return await post<DeleteAllResponse>(
     `${serverUrl}/api/delete-all`,
     undefined,
-    { timeout: 30000, retries: 1 }
+    { timeout: 30000, retries: 1, auth: true }
   );
 }
 
 /**
- * Get all collocations (limited to 1000)
+ * Get all collocations
+ * Walks every page; servers without paging return their whole list (up to 1000) at once
+ * @param createdAfter - Only collocations created after this time
  * @returns Array of collocations
  */
-export async function getCollocations(): Promise<Collocation[]> {
+export async function getCollocations(createdAfter?: Date): Promise<Collocation[]> {
   const serverUrl = await getServerUrl();
+  if (!(await supportsFeature(serverUrl, 'pagination'))) {
+    const { items } = await getCollocationsPage({ createdAfter });
+    return createdAfter ? items.filter(card => card.createdAt && card.createdAt > createdAfter) : items;
+  }
+
+  const collocations: Collocation[] = [];
+  const seenCursors = new Set<string>();
+  let query: CollocationPageQuery = { limit: COLLOCATION_PAGE_SIZE, createdAfter };
+  let received = 0;
+
+  for (;;) {
+    const page = await getCollocationsPage(query);
+    received += page.items.length;
+    collocations.push(...page.items);
 
+    // An empty page or a repeated cursor would never end the walk
+    if (page.items.length === 0 || (page.nextCursor && seenCursors.has(page.nextCursor))) {
+      break;
+    }
+
+    if (page.nextCursor) {
+      seenCursors.add(page.nextCursor);
+      query = { limit: COLLOCATION_PAGE_SIZE, createdAfter, cursor: page.nextCursor };
+    } else if (page.total !== undefined && received < page.total) {
+      query = { limit: COLLOCATION_PAGE_SIZE, createdAfter, offset: received };
+    } else {
+      break;
+    }
+  }
+
+  // Servers that ignore the filter return everything
+  return createdAfter
+    ? collocations.filter(card => card.createdAt && card.createdAt > createdAfter)
+    : collocations;
+}
+
+/**
+ * Get one page of collocations
+ * @param query - Page size, offset or cursor, and an optional headword filter
+ * @returns Page items with the total and the next cursor when the server reports them
+ */
+export async function getCollocationsPage(query: CollocationPageQuery = {}): Promise<CollocationPage> {
+  const serverUrl = await getServerUrl();
+  const params = new URLSearchParams();
+
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.cursor) {
+    params.set('cursor', query.cursor);
+  } else if (query.offset) {
+    params.set('offset', String(query.offset));
+  }
+  if (query.headword) params.set('headword', query.headword);
+  if (query.createdAfter) params.set('createdAfter', query.createdAfter.toISOString());
+
+  const search = params.toString();
   const response = await get<GetCollocationsResponse>(
-    `${serverUrl}/api/collocations`,
-    { timeout: 15000, retries: 2 }
+    `${serverUrl}/api/collocations${search ? `?${search}` : ''}`,
+    { timeout: 15000, retries: 2, auth: true }
   );
 
-  return response.data || [];
+  return {
+    items: (response.data || []).map(normalizeCollocation),
+    total: response.total,
+    nextCursor: response.nextCursor || undefined,
+  };
 }
 
 /**
- * Test server connection
- * @returns true if server is reachable
+ * Get the collocations saved for one headword
+ * @param headword - Word the collocations were generated for
+ * @returns Array of collocations
  */
-export async function testConnection(): Promise<boolean> {
+export async function getCollocationsByHeadword(headword: string): Promise<Collocation[]> {
+  const page = await getCollocationsPage({ headword });
+  const target = headword.toLowerCase();
+
+  // Servers that ignore the filter return the full list
+  return page.items.filter(card => card.headword?.toLowerCase() === target);
+}
+
+/**
+ * Get collocations changed since a change token
+ * @param since - Token from the previous call; omit to get every collocation
+ * @returns Changes and the next token, or null if the server has no change feed
+ */
+export async function getCollocationChanges(since?: string): Promise<CollocationDelta | null> {
+  const serverUrl = await getServerUrl();
+  if (!(await supportsFeature(serverUrl, 'changes'))) {
+    return null;
+  }
+  const query = since ? `?since=${encodeURIComponent(since)}` : '';
+
+  try {
+    const response = await get<CollocationChangesResponse>(
+      `${serverUrl}/api/changes${query}`,
+      { timeout: 30000, retries: 2, auth: true }
+    );
+
+    return {
+      updated: (response.data || []).map(normalizeCollocation),
+      deleted: (response.deleted || []).map(String),
+      token: response.token,
+    };
+  } catch (error) {
+    if (error instanceof APIError && UNSUPPORTED_ROUTE_STATUSES.includes(error.statusCode ?? 0)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Test server connection through the capability handshake
+ * @returns Whether the server can be used, with its advertised version and features
+ */
+export async function testConnection(): Promise<ConnectionTestResult> {
+  const serverUrl = await getActiveServerUrl();
+  if (!serverUrl) {
+    return { ok: false, error: 'Server URL not configured' };
+  }
+
   try {
-    const serverUrl = await getServerUrl();
-    await get(`${serverUrl}/api/collocations`, { timeout: 5000, retries: 0 });
-    return true;
-  } catch {
-    return false;
+    const capabilities = await getServerCapabilities(serverUrl, { refresh: true });
+    return { ok: true, capabilities };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
   }
 }
@@ -0,0 +1,103 @@
+/**
+ * Backups of collocations taken before destructive server calls
+ * Kept in IndexedDB so deletes can be undone or restored later from the options page.
+ * Review state is backed up with the cards, and restoring also refills the local stores
+ */
+
+import { db } from './db';
+import { getAllCollocationsWithFallback, invalidateCollocationCache, invalidateWordCache } from './strategies';
+import { addMirrorEntries } from './mirror';
+import { getCollocations } from '../api/server';
+import type { AddCollocationsResponse } from '../api/server';
+import { syncOrQueue } from '../sync/outbox';
+import type { SyncOutcome } from '../sync/outbox';
+import { reviewCardId, restoreReviewCards } from '../review/store';
+import type { Collocation, CollocationBackup, ReviewCard } from '../types/models';
+
+// Older backups are pruned when a new one is taken
+export const MAX_BACKUPS = 5;
+
+/**
+ * Back up every collocation before deleting them all
+ * Falls back to the last fetched list when the server is unreachable
+ * @returns The stored backup; complete = false if it came from the offline copy
+ */
+export async function backupAllCollocations(): Promise<CollocationBackup> {
+  const { collocations, offline } = await getAllCollocationsWithFallback(getCollocations);
+  return saveBackup('deleteAll', collocations, !offline);
+}
+
+/**
+ * Back up the collocations about to be deleted one by one
+ * @param collocations - Cards being deleted
+ * @returns The stored backup
+ */
+export async function backupCollocations(collocations: Collocation[]): Promise<CollocationBackup> {
+  return saveBackup('delete', collocations, true);
+}
+
+/**
+ * Get stored backups, newest first
+ */
+export async function getBackups(): Promise<CollocationBackup[]> {
+  return db.backups.orderBy('createdAt').reverse().toArray();
+}
+
+/**
+ * Upload a backup's collocations again
+ * Goes through the outbox, so a restore queued behind a pending delete runs after it
+ * @param id - Backup id
+ */
+export async function restoreBackup(id: string): Promise<SyncOutcome<AddCollocationsResponse>> {
+  const backup = await db.backups.get(id);
+  if (!backup) {
+    throw new Error('Backup not found');
+  }
+
+  // Uploaded as new cards; the server assigns fresh ids
+  const collocations = backup.collocations.map(({ id: _id, ...card }) => card);
+  const outcome = await syncOrQueue<AddCollocationsResponse>('add', { collocations });
+
+  await addMirrorEntries(collocations);
+  await restoreReviewCards(backup.reviewCards || []);
+  // Lookups made after the delete cached these words as missing
+  for (const word of new Set(collocations.map(card => card.headword).filter(Boolean) as string[])) {
+    await invalidateWordCache(word);
+    await invalidateCollocationCache(word);
+  }
+
+  return outcome;
+}
+
+/**
+ * Permanently drop a backup
+ * @param id - Backup id
+ */
+export async function deleteBackup(id: string): Promise<void> {
+  await db.backups.delete(id);
+}
+
+async function saveBackup(
+  reason: CollocationBackup['reason'],
+  collocations: Collocation[],
+  complete: boolean
+): Promise<CollocationBackup> {
+  const reviewCards = await db.reviewCards.bulkGet(collocations.map(card => reviewCardId(card.collocation)));
+  const backup: CollocationBackup = {
+    id: crypto.randomUUID(),
+    reason,
+    createdAt: Date.now(),
+    complete,
+    collocations,
+    reviewCards: reviewCards.filter((card): card is ReviewCard => !!card),
+  };
+
+  await db.transaction('rw', db.backups, async () => {
+    await db.backups.add(backup);
+
+    const expired = await db.backups.orderBy('createdAt').reverse().offset(MAX_BACKUPS).primaryKeys();
+    await db.backups.bulkDelete(expired);
+  });
+
+  return backup;
+}
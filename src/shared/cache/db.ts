@@ -4,7 +4,19 @@
  */
 
 import Dexie, { type Table } from 'dexie';
-import type { Collocation, WordQueueItem, SyncQueueItem } from '../types/models';
+import type {
+  Collocation,
+  WordQueueItem,
+  SyncQueueItem,
+  ReviewCard,
+  ReviewLogEntry,
+  LocalCollocation,
+  CollocationBackup,
+  AIUsageEntry,
+} from '../types/models';
+import { getActiveProfileId, profileScopedName } from '../profiles/active';
+
+const DATABASE_NAME = 'VocabularyManagerDB';
 
 export interface WordCacheEntry {
   word: string;
@@ -33,9 +45,14 @@ export class VocabDatabase extends Dexie {
   queue!: Table<WordQueueItem, string>;
   syncQueue!: Table<SyncQueueItem, string>;
   settings!: Table<SettingsEntry, string>;
+  reviewCards!: Table<ReviewCard, string>;
+  reviewLog!: Table<ReviewLogEntry, string>;
+  collocations!: Table<LocalCollocation, string>;
+  backups!: Table<CollocationBackup, string>;
+  aiUsage!: Table<AIUsageEntry, string>;
 
-  constructor() {
-    super('VocabularyManagerDB');
+  constructor(name = DATABASE_NAME) {
+    super(name);
 
     this.version(1).stores({
       wordCache: 'word, timestamp',
@@ -44,11 +61,83 @@ export class VocabDatabase extends Dexie {
       syncQueue: 'id, timestamp, retries',
       settings: 'key',
     });
+
+    // v2: outbox status and backoff scheduling
+    this.version(2).stores({
+      syncQueue: 'id, timestamp, retries, status, nextAttemptAt',
+    });
+
+    // v3: spaced-repetition cards and review history
+    this.version(3).stores({
+      reviewCards: 'id, due, headword',
+      reviewLog: 'id, cardId, reviewedAt',
+    });
+
+    // v4: local mirror of the server's collocations
+    this.version(4).stores({
+      collocations: 'key, collocation, headword, createdAt, *tags',
+    });
+
+    // v5: backups taken before destructive server calls
+    this.version(5).stores({
+      backups: 'id, createdAt',
+    });
+
+    // v6: daily AI request and token usage
+    this.version(6).stores({
+      aiUsage: 'id, date',
+    });
   }
 }
 
-// Create singleton instance
-export const db = new VocabDatabase();
+// Database of the active profile; replaced when the profile changes
+let current = new VocabDatabase();
+let selected: Promise<void> | null = null;
+
+// Singleton that forwards to the active profile's database, so imports stay valid across switches
+export const db = new Proxy({} as VocabDatabase, {
+  get(_target, prop) {
+    const value = Reflect.get(current, prop, current);
+    return typeof value === 'function' ? value.bind(current) : value;
+  },
+});
+
+/**
+ * IndexedDB name of a profile's database
+ * @param profileId - Profile id
+ */
+export function databaseName(profileId: string): string {
+  return profileScopedName(DATABASE_NAME, profileId);
+}
+
+/**
+ * Point db at a profile's database, closing the previous one
+ * @param profileId - Profile id
+ */
+export function selectDatabase(profileId: string): void {
+  const name = databaseName(profileId);
+  if (current.name === name) return;
+
+  current.close();
+  current = new VocabDatabase(name);
+}
+
+/**
+ * Select the active profile's database
+ * Await before the first query in each extension context
+ */
+export function selectActiveDatabase(): Promise<void> {
+  selected ??= getActiveProfileId().then(selectDatabase);
+  return selected;
+}
+
+/**
+ * Delete a profile's database
+ * @param profileId - Profile id; must not be the active profile
+ */
+export async function deleteDatabase(profileId: string): Promise<void> {
+  await Dexie.delete(databaseName(profileId));
+}
 
 /**
  * Clear expired cache entries
@@ -76,10 +165,37 @@ export async function clearExpiredCache(): Promise<void> {
   }
 }
 
+// db.settings entries holding server data (see strategies.ts and mirror.ts)
+const USER_SETTINGS_KEYS = ['collocationSnapshot', 'mirrorSyncState', 'mirrorConflicts'];
+
+/**
+ * Remove everything cached for the signed-in user
+ * Used when a different user signs in; the word queue and generation job are kept
+ */
+export async function clearUserData(): Promise<void> {
+  await db.transaction(
+    'rw',
+    [db.wordCache, db.collocationCache, db.syncQueue, db.reviewCards, db.reviewLog, db.collocations, db.backups, db.settings],
+    async () => {
+      await Promise.all([
+        db.wordCache.clear(),
+        db.collocationCache.clear(),
+        db.syncQueue.clear(),
+        db.reviewCards.clear(),
+        db.reviewLog.clear(),
+        db.collocations.clear(),
+        db.backups.clear(),
+        db.settings.bulkDelete(USER_SETTINGS_KEYS),
+      ]);
+    }
+  );
+}
+
 /**
  * Initialize database and run cleanup
  */
 export async function initDatabase(): Promise<void> {
+  await selectActiveDatabase();
   await db.open();
   await clearExpiredCache();
 
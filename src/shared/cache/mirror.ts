@@ -0,0 +1,377 @@
+/**
+ * Local mirror of the server's collocations
+ * Persistent offline store for the manage page, review deck and page highlighting.
+ * Pulls incrementally (change feed, or createdAt on servers without one) and
+ * resolves local edits against server edits with last-writer-wins
+ */
+
+import { db } from './db';
+import { getCollocationChanges, getCollocations } from '../api/server';
+import { removeReviewCards } from '../review/store';
+import type { Collocation, CollocationChanges, LocalCollocation, SyncQueueItem } from '../types/models';
+
+const MIRROR_STATE_KEY = 'mirrorSyncState';
+const MIRROR_CONFLICTS_KEY = 'mirrorConflicts';
+const MIRROR_LOCK_NAME = 'vocab-mirror-sync';
+const FULL_SYNC_INTERVAL = 24 * 60 * 60 * 1000; // Catch edits and deletes a createdAt pull misses
+const MAX_CONFLICTS = 50;
+
+export type MirrorSort = 'newest' | 'oldest' | 'az' | 'za';
+
+export interface MirrorQuery {
+  search?: string; // Matches collocation, headword, meaning and synonyms
+  tag?: string;
+  from?: Date;
+  to?: Date;
+  sort?: MirrorSort;
+  offset?: number;
+  limit?: number;
+}
+
+export interface MirrorPage {
+  items: LocalCollocation[];
+  total: number; // Matches before paging
+}
+
+export interface MirrorSyncResult {
+  mode: 'changes' | 'incremental' | 'full';
+  pulled: number; // Records received from the server
+  conflicts: number; // Conflicts found by this pull
+}
+
+/**
+ * A local edit that raced an edit on the server
+ */
+export interface MirrorConflict {
+  key: string;
+  collocation: string;
+  action: 'update' | 'delete';
+  winner: 'local' | 'server';
+  localAt: number; // When the local edit was made
+  serverAt?: number; // When the server copy last changed; absent if it was deleted there
+  detectedAt: number;
+}
+
+interface MirrorSyncState {
+  token?: string; // Change feed token
+  changeFeed?: boolean; // false once the server is known to have no change feed
+  lastCreatedAt?: number; // Newest createdAt seen, for createdAt pulls
+  lastFullSyncAt?: number;
+  lastSyncAt?: number;
+}
+
+/**
+ * Mirror key for a card
+ * @param card - Card from the server
+ */
+export function mirrorKey(card: Collocation): string {
+  return card.id ?? textKey(card);
+}
+
+/**
+ * Pull server changes into the mirror
+ * Uses the change feed when available, otherwise new cards by createdAt,
+ * with a full pull at least once a day
+ * @param options - full forces a complete pull
+ */
+export async function syncMirror(options: { full?: boolean } = {}): Promise<MirrorSyncResult> {
+  // Web Locks keep the popup, pages and service worker from pulling at once
+  return navigator.locks.request(MIRROR_LOCK_NAME, async () => {
+    const state = await getSyncState();
+    const full = options.full || !state.lastFullSyncAt || Date.now() - state.lastFullSyncAt > FULL_SYNC_INTERVAL;
+    let result: MirrorSyncResult;
+
+    // Full pulls probe the change feed again, in case the server was upgraded
+    if (full || (state.changeFeed && state.token)) {
+      const delta = await getCollocationChanges(full ? undefined : state.token);
+
+      if (delta) {
+        const conflicts = await mergeServerCards(delta.updated, delta.deleted, full);
+        state.token = delta.token;
+        state.changeFeed = true;
+        result = { mode: full ? 'full' : 'changes', pulled: delta.updated.length, conflicts };
+      } else {
+        state.changeFeed = false;
+        result = await pullByCreatedAt(state, true);
+      }
+    } else {
+      result = await pullByCreatedAt(state, full);
+    }
+
+    state.lastSyncAt = Date.now();
+    if (result.mode === 'full') {
+      state.lastFullSyncAt = state.lastSyncAt;
+    }
+    await db.settings.put({ key: MIRROR_STATE_KEY, value: state });
+
+    return result;
+  });
+}
+
+/**
+ * Pull only if the last pull is older than maxAge
+ * @param maxAge - Maximum age of the mirror in ms
+ * @returns Pull result, or null if the mirror was fresh enough
+ */
+export async function syncMirrorIfStale(maxAge: number): Promise<MirrorSyncResult | null> {
+  const state = await getSyncState();
+  if (state.lastSyncAt && Date.now() - state.lastSyncAt < maxAge) {
+    return null;
+  }
+  return syncMirror();
+}
+
+/**
+ * Every mirrored collocation
+ */
+export async function getMirroredCollocations(): Promise<Collocation[]> {
+  return db.collocations.toArray();
+}
+
+/**
+ * Mirrored collocations generated for a headword
+ * @param headword - Lemma
+ */
+export async function getMirroredByHeadword(headword: string): Promise<Collocation[]> {
+  return db.collocations.where('headword').equalsIgnoreCase(headword).toArray();
+}
+
+/**
+ * Add cards generated locally, before the server has assigned ids
+ * Replaced by the server copy on the next pull
+ * @param collocations - New cards
+ */
+export async function addMirrorEntries(collocations: Collocation[]): Promise<void> {
+  await db.collocations.bulkPut(collocations.map(card => ({ ...card, key: mirrorKey(card) })));
+}
+
+/**
+ * Search, filter, sort and page the mirror
+ * @param query - Query options
+ */
+export async function queryMirror(query: MirrorQuery): Promise<MirrorPage> {
+  const search = query.search?.trim().toLowerCase();
+  const tag = query.tag?.toLowerCase();
+
+  let items = await db.collocations.toArray();
+
+  items = items.filter(card => {
+    if (tag && !card.tags?.some(t => t.toLowerCase() === tag)) return false;
+    if (query.from && (!card.createdAt || card.createdAt < query.from)) return false;
+    if (query.to && (!card.createdAt || card.createdAt > query.to)) return false;
+    if (search) {
+      const text = [card.collocation, card.headword, card.meaning, ...(card.synonyms || [])]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!text.includes(search)) return false;
+    }
+    return true;
+  });
+
+  items.sort(compareBy(query.sort || 'newest'));
+
+  const offset = query.offset || 0;
+  return {
+    items: items.slice(offset, query.limit ? offset + query.limit : undefined),
+    total: items.length,
+  };
+}
+
+/**
+ * All tags used in the mirror, sorted
+ */
+export async function getMirrorTags(): Promise<string[]> {
+  const tags = await db.collocations.orderBy('tags').uniqueKeys();
+  return (tags as string[]).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Apply an edit to a mirrored collocation
+ * @param key - Mirror key
+ * @param changes - Changed fields
+ */
+export async function updateMirrorEntry(key: string, changes: CollocationChanges): Promise<void> {
+  await db.collocations.update(key, changes);
+}
+
+/**
+ * Remove a collocation from the mirror
+ * @param key - Mirror key
+ */
+export async function deleteMirrorEntry(key: string): Promise<void> {
+  await db.collocations.delete(key);
+}
+
+/**
+ * Empty the mirror after every collocation was deleted
+ */
+export async function clearMirror(): Promise<void> {
+  await db.collocations.clear();
+}
+
+/**
+ * Conflicts found by recent pulls, newest first
+ */
+export async function getMirrorConflicts(): Promise<MirrorConflict[]> {
+  const entry = await db.settings.get(MIRROR_CONFLICTS_KEY);
+  return (entry?.value as MirrorConflict[] | undefined) || [];
+}
+
+/**
+ * Forget reported conflicts
+ */
+export async function clearMirrorConflicts(): Promise<void> {
+  await db.settings.delete(MIRROR_CONFLICTS_KEY);
+}
+
+async function getSyncState(): Promise<MirrorSyncState> {
+  const entry = await db.settings.get(MIRROR_STATE_KEY);
+  return { ...(entry?.value as MirrorSyncState | undefined) };
+}
+
+// Servers without a change feed: new cards by createdAt, or everything
+async function pullByCreatedAt(state: MirrorSyncState, full: boolean): Promise<MirrorSyncResult> {
+  const since = !full && state.lastCreatedAt ? new Date(state.lastCreatedAt) : undefined;
+  const cards = await getCollocations(since);
+  const conflicts = await mergeServerCards(cards, [], !since);
+
+  for (const card of cards) {
+    const createdAt = card.createdAt?.getTime() ?? 0;
+    if (createdAt > (state.lastCreatedAt ?? 0)) {
+      state.lastCreatedAt = createdAt;
+    }
+  }
+
+  return { mode: since ? 'incremental' : 'full', pulled: cards.length, conflicts };
+}
+
+/**
+ * Write server cards into the mirror and settle queued edits against them
+ * @param replace - true if cards is the server's complete list
+ * @returns Number of conflicts found
+ */
+async function mergeServerCards(cards: Collocation[], deletedIds: string[], replace: boolean): Promise<number> {
+  return db.transaction('rw', db.collocations, db.syncQueue, db.settings, db.reviewCards, async () => {
+    const pending = await db.syncQueue.where('status').equals('pending').toArray();
+    const conflicts: MirrorConflict[] = [];
+    const deleted: string[] = [];
+
+    for (const card of cards) {
+      if (!card.id) continue;
+      const previous = await db.collocations.get(card.id);
+      conflicts.push(...(await settleEdits(card, previous, pending)));
+    }
+
+    for (const id of deletedIds) {
+      const previous = await db.collocations.get(id);
+      conflicts.push(...(await settleEdits(undefined, previous, pending, id)));
+      if (previous) deleted.push(previous.collocation);
+    }
+
+    if (replace) {
+      await db.collocations.clear();
+    } else {
+      await db.collocations.bulkDelete(deletedIds);
+      // Drop local copies of cards that now have a server id
+      await db.collocations.bulkDelete(cards.filter(card => card.id).map(textKey));
+    }
+    await db.collocations.bulkPut(cards.map(card => ({ ...card, key: mirrorKey(card) })));
+    await applyPendingChanges();
+    // Deleted on another device: stop reviewing them here too
+    await removeReviewCards(deleted);
+
+    if (conflicts.length > 0) {
+      const stored = await getMirrorConflicts();
+      await db.settings.put({
+        key: MIRROR_CONFLICTS_KEY,
+        value: [...conflicts, ...stored].slice(0, MAX_CONFLICTS),
+      });
+    }
+    return conflicts.length;
+  });
+}
+
+/**
+ * Last-writer-wins between queued edits of a card and its server copy
+ * An edit only conflicts if the server copy changed since the mirror last saw it.
+ * Edits that lose are removed from the outbox
+ */
+async function settleEdits(
+  card: Collocation | undefined,
+  previous: LocalCollocation | undefined,
+  pending: SyncQueueItem[],
+  deletedId?: string
+): Promise<MirrorConflict[]> {
+  const id = card?.id ?? deletedId;
+  // Deleting a card the server also deleted is not a conflict
+  const actions = card ? ['update', 'delete'] : ['update'];
+  const edits = pending.filter(item =>
+    actions.includes(item.action) && (item.data as { id?: string })?.id === id
+  );
+  if (edits.length === 0) return [];
+
+  const serverAt = card?.updatedAt?.getTime();
+  const baseAt = previous?.updatedAt?.getTime();
+  const serverChanged = !card || (serverAt !== undefined && serverAt !== baseAt);
+  if (!serverChanged) return [];
+
+  const conflicts: MirrorConflict[] = [];
+  for (const item of edits) {
+    // A server-side delete carries no time; it wins over edits made before this pull
+    const winner = serverAt === undefined || serverAt > item.timestamp ? 'server' : 'local';
+    if (winner === 'server') {
+      await db.syncQueue.delete(item.id);
+    }
+
+    conflicts.push({
+      key: id!,
+      collocation: card?.collocation ?? previous?.collocation ?? id!,
+      action: item.action as MirrorConflict['action'],
+      winner,
+      localAt: item.timestamp,
+      serverAt,
+      detectedAt: Date.now(),
+    });
+  }
+  return conflicts;
+}
+
+// Re-apply queued writes that the server has not seen yet
+// Dead letters were rejected or given up on, so they are not replayed locally
+async function applyPendingChanges() {
+  const items = await db.syncQueue.where('status').equals('pending').sortBy('timestamp');
+
+  for (const item of items) {
+    if (item.action === 'add') {
+      const { collocations } = item.data as { collocations: Collocation[] };
+      await db.collocations.bulkPut(collocations.map(card => ({ ...card, key: mirrorKey(card) })));
+    } else if (item.action === 'update') {
+      const { id, changes } = item.data as { id: string; changes: CollocationChanges };
+      await db.collocations.update(id, changes);
+    } else if (item.action === 'delete') {
+      await db.collocations.delete((item.data as { id: string }).id);
+    } else if (item.action === 'deleteAll') {
+      await db.collocations.clear();
+    }
+  }
+}
+
+function textKey(card: Collocation): string {
+  return card.collocation.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function compareBy(sort: MirrorSort): (a: LocalCollocation, b: LocalCollocation) => number {
+  const time = (card: LocalCollocation) => card.createdAt?.getTime() ?? 0;
+
+  switch (sort) {
+    case 'oldest':
+      return (a, b) => time(a) - time(b);
+    case 'az':
+      return (a, b) => a.collocation.localeCompare(b.collocation);
+    case 'za':
+      return (a, b) => b.collocation.localeCompare(a.collocation);
+    default:
+      return (a, b) => time(b) - time(a);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Word queue ordering and edits
+ * Queue items are keyed by word; order comes from an explicit position,
+ * falling back to when the word was added
+ */
+
+import { db } from './db';
+import type { WordQueueItem } from '../types/models';
+
+/**
+ * Sort key of a queue item
+ * @param item - Queue item
+ */
+export function queuePosition(item: WordQueueItem): number {
+  return item.position ?? item.addedAt.getTime();
+}
+
+/**
+ * Sort queue items in generation order
+ * @param items - Queue items
+ */
+export function sortQueue(items: WordQueueItem[]): WordQueueItem[] {
+  return [...items].sort((a, b) => queuePosition(a) - queuePosition(b));
+}
+
+/**
+ * Get all queue items in generation order
+ */
+export async function getOrderedQueue(): Promise<WordQueueItem[]> {
+  return sortQueue(await db.queue.toArray());
+}
+
+/**
+ * Move words to the front of the queue, keeping their relative order
+ * @param words - Words to move
+ */
+export async function moveToTop(words: string[]): Promise<void> {
+  await db.transaction('rw', db.queue, async () => {
+    const items = await getOrderedQueue();
+    const moved = new Set(words);
+
+    await renumber([...items.filter(item => moved.has(item.word)), ...items.filter(item => !moved.has(item.word))]);
+  });
+}
+
+/**
+ * Move one word before another
+ * @param word - Word being moved
+ * @param beforeWord - Word it is dropped on; undefined moves it to the end
+ */
+export async function moveBefore(word: string, beforeWord?: string): Promise<void> {
+  if (word === beforeWord) return;
+
+  await db.transaction('rw', db.queue, async () => {
+    const items = await getOrderedQueue();
+    const moving = items.find(item => item.word === word);
+    if (!moving) return;
+
+    const rest = items.filter(item => item.word !== word);
+    const index = beforeWord ? rest.findIndex(item => item.word === beforeWord) : -1;
+    rest.splice(index < 0 ? rest.length : index, 0, moving);
+
+    await renumber(rest);
+  });
+}
+
+/**
+ * Mark words for another generation attempt
+ * @param words - Words to reset
+ */
+export async function resetQueueItems(words: string[]): Promise<void> {
+  await db.queue.bulkUpdate(words.map(word => ({
+    key: word,
+    changes: { status: 'pending', error: undefined },
+  })));
+}
+
+/**
+ * Change a queued word, keeping its place in the queue
+ * @param word - Current word
+ * @param newWord - Sanitized, validated replacement
+ * @returns false if the replacement is already queued
+ */
+export async function renameQueueItem(word: string, newWord: string): Promise<boolean> {
+  return db.transaction('rw', db.queue, async () => {
+    const item = await db.queue.get(word);
+    if (!item) return false;
+    if (newWord !== word && (await db.queue.get(newWord))) return false;
+
+    await db.queue.delete(word);
+    await db.queue.add({
+      ...item,
+      word: newWord,
+      position: queuePosition(item),
+      status: 'pending',
+      error: undefined,
+    });
+    return true;
+  });
+}
+
+// Store explicit positions in the given order
+async function renumber(items: WordQueueItem[]) {
+  await db.queue.bulkUpdate(items.map((item, index) => ({
+    key: item.word,
+    changes: { position: index },
+  })));
+}
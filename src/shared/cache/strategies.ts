@@ -4,10 +4,18 @@
 
 import { db } from './db';
 import type { Collocation } from '../types/models';
+import { normalizeCollocation } from '../utils/cards';
 
 // Cache TTLs
 const WORD_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 const COLLOCATION_CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+const COLLOCATION_SNAPSHOT_KEY = 'collocationSnapshot';
+
+export interface CollocationSnapshot {
+  collocations: Collocation[];
+  timestamp: number;
+  offline: boolean; // true if served from the last snapshot because the fetch failed
+}
 
 /**
  * Check word existence with caching
@@ -47,6 +55,51 @@ export async function checkWordWithCache(
   return exists;
 }
 
+/**
+ * Store existence results for several words
+ * @param results - Existence keyed by word
+ */
+export async function cacheWordExistence(results: Record<string, boolean>): Promise<void> {
+  const timestamp = Date.now();
+
+  await db.wordCache.bulkPut(
+    Object.entries(results).map(([word, exists]) => ({ word, exists, timestamp, ttl: WORD_CACHE_TTL }))
+  );
+}
+
+/**
+ * Check existence of many words, fetching only those missing from the cache
+ * @param words - Words to check
+ * @param checkFn - Batch existence check (API call)
+ * @returns Existence keyed by word
+ */
+export async function checkWordsWithCache(
+  words: string[],
+  checkFn: (words: string[]) => Promise<Record<string, boolean>>
+): Promise<Record<string, boolean>> {
+  const now = Date.now();
+  const cached = await db.wordCache.bulkGet(words);
+  const results: Record<string, boolean> = {};
+  const missing: string[] = [];
+
+  words.forEach((word, index) => {
+    const entry = cached[index];
+    if (entry && now < entry.timestamp + entry.ttl) {
+      results[word] = entry.exists;
+    } else {
+      missing.push(word);
+    }
+  });
+
+  if (missing.length > 0) {
+    const fetched = await checkFn(missing);
+    await cacheWordExistence(fetched);
+    Object.assign(results, fetched);
+  }
+
+  return results;
+}
+
 /**
  * Get collocations with caching
  * @param word - The word to get collocations for
@@ -63,8 +116,8 @@ export async function getCollocationsWithCache(
   if (cached) {
     const now = Date.now();
     if (now < cached.timestamp + COLLOCATION_CACHE_TTL) {
-      // Cache hit
-      return cached.collocations;
+      // Cache hit (entries written before v2 cards need upgrading)
+      return cached.collocations.map(normalizeCollocation);
     }
 
     // Cache expired, remove it
@@ -84,6 +137,35 @@ export async function getCollocationsWithCache(
   return collocations;
 }
 
+/**
+ * Get the full collocation list, falling back to the last successful fetch
+ * @param fetchFn - Function to fetch all collocations (API call)
+ * @returns Collocations and where they came from
+ */
+export async function getAllCollocationsWithFallback(
+  fetchFn: () => Promise<Collocation[]>
+): Promise<CollocationSnapshot> {
+  try {
+    const collocations = await fetchFn();
+    const timestamp = Date.now();
+
+    await db.settings.put({ key: COLLOCATION_SNAPSHOT_KEY, value: { collocations, timestamp } });
+    return { collocations, timestamp, offline: false };
+  } catch (error) {
+    const stored = await db.settings.get(COLLOCATION_SNAPSHOT_KEY);
+    if (!stored) {
+      throw error;
+    }
+
+    const snapshot = stored.value as Omit<CollocationSnapshot, 'offline'>;
+    return {
+      collocations: snapshot.collocations.map(normalizeCollocation),
+      timestamp: snapshot.timestamp,
+      offline: true,
+    };
+  }
+}
+
 /**
  * Invalidate word cache
  * @param word - The word to invalidate
@@ -0,0 +1,90 @@
+/**
+ * Daily AI usage
+ * Counts requests and tokens per provider and local day, and compares them
+ * with the daily limits set in the options page
+ */
+
+import { db } from './db';
+import type { AIProviderId, AIProviderSettings, TokenUsage } from '../api/providers';
+import type { AIUsageEntry } from '../types/models';
+
+export interface AIQuota {
+  provider: AIProviderId;
+  requests: number; // Used today
+  tokens: number; // Used today
+  remainingRequests?: number; // Absent when there is no limit
+  remainingTokens?: number;
+  exhausted: boolean;
+  resetsAt: number; // Next local midnight
+}
+
+/**
+ * Count one successful AI request
+ * @param provider - Provider id
+ * @param usage - Tokens reported by the provider, if any
+ */
+export async function recordAIUsage(provider: AIProviderId, usage?: TokenUsage): Promise<void> {
+  const date = localDate();
+  const id = `${date}:${provider}`;
+
+  await db.transaction('rw', db.aiUsage, async () => {
+    const entry = (await db.aiUsage.get(id)) || emptyEntry(id, date, provider);
+
+    await db.aiUsage.put({
+      ...entry,
+      requests: entry.requests + 1,
+      promptTokens: entry.promptTokens + (usage?.promptTokens ?? 0),
+      outputTokens: entry.outputTokens + (usage?.outputTokens ?? 0),
+      totalTokens: entry.totalTokens + (usage?.totalTokens ?? 0),
+    });
+  });
+}
+
+/**
+ * Today's usage of a provider
+ * @param provider - Provider id
+ */
+export async function getAIUsage(provider: AIProviderId): Promise<AIUsageEntry> {
+  const date = localDate();
+  const id = `${date}:${provider}`;
+  return (await db.aiUsage.get(id)) || emptyEntry(id, date, provider);
+}
+
+/**
+ * Today's usage against the provider's daily limits
+ * @param provider - Provider id
+ * @param settings - Provider settings holding the limits
+ */
+export async function getAIQuota(provider: AIProviderId, settings: AIProviderSettings): Promise<AIQuota> {
+  const usage = await getAIUsage(provider);
+  const { dailyRequestLimit, dailyTokenLimit } = settings;
+
+  const remainingRequests = dailyRequestLimit ? Math.max(0, dailyRequestLimit - usage.requests) : undefined;
+  const remainingTokens = dailyTokenLimit ? Math.max(0, dailyTokenLimit - usage.totalTokens) : undefined;
+
+  return {
+    provider,
+    requests: usage.requests,
+    tokens: usage.totalTokens,
+    remainingRequests,
+    remainingTokens,
+    exhausted: remainingRequests === 0 || remainingTokens === 0,
+    resetsAt: nextMidnight(),
+  };
+}
+
+function emptyEntry(id: string, date: string, provider: string): AIUsageEntry {
+  return { id, date, provider, requests: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+// Local day as YYYY-MM-DD; limits reset at local midnight
+function localDate(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function nextMidnight(): number {
+  const midnight = new Date();
+  midnight.setHours(24, 0, 0, 0);
+  return midnight.getTime();
+}
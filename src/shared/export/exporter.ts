@@ -0,0 +1,186 @@
+/**
+ * Client-side exporter
+ * Turns the collocation list into CSV, Anki TSV, JSON, Quizlet or Markdown
+ */
+
+import { getCardFieldValues } from '../utils/cards';
+import type { CardField } from '../utils/cards';
+import { escapeHtml } from '../utils/html';
+import { CARD_VERSION } from '../types/models';
+import type { Collocation } from '../types/models';
+
+export type ExportFormat = 'csv' | 'anki' | 'json' | 'quizlet' | 'markdown';
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface ExportFilter {
+  from?: Date; // Only cards created on or after this time
+  to?: Date; // Only cards created on or before this time
+  tag?: string; // Only cards with this tag (case-insensitive)
+}
+
+export interface ExportOptions extends ExportFilter {
+  format: ExportFormat;
+  columns?: CardField[]; // CSV and Markdown columns
+  delimiter?: CsvDelimiter; // CSV only
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  filename: string;
+  count: number; // Cards included
+}
+
+export const DEFAULT_EXPORT_COLUMNS: CardField[] = ['collocation', 'ipa', 'meaning', 'partOfSpeech', 'synonyms'];
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  anki: { extension: 'txt', mimeType: 'text/tab-separated-values;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  quizlet: { extension: 'txt', mimeType: 'text/plain;charset=utf-8' },
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+};
+
+/**
+ * Keep cards matching a date range and tag
+ * Cards without a creation date are only kept when no date range is given
+ * @param collocations - Cards to filter
+ * @param filter - Date range and tag
+ */
+export function filterCollocations(collocations: Collocation[], filter: ExportFilter): Collocation[] {
+  const tag = filter.tag?.trim().toLowerCase();
+
+  return collocations.filter(card => {
+    if (filter.from || filter.to) {
+      if (!card.createdAt) return false;
+      if (filter.from && card.createdAt < filter.from) return false;
+      if (filter.to && card.createdAt > filter.to) return false;
+    }
+    if (tag && !card.tags?.some(t => t.toLowerCase() === tag)) return false;
+    return true;
+  });
+}
+
+/**
+ * Export cards in the requested format
+ * @param collocations - Cards to export
+ * @param options - Format, columns and filters
+ * @returns File contents ready for download
+ */
+export function exportCollocations(collocations: Collocation[], options: ExportOptions): ExportFile {
+  const cards = filterCollocations(collocations, options);
+  const columns = options.columns?.length ? options.columns : DEFAULT_EXPORT_COLUMNS;
+
+  const content = {
+    csv: () => toCSV(cards, columns, options.delimiter || ','),
+    anki: () => toAnkiTSV(cards),
+    json: () => toJSON(cards),
+    quizlet: () => toQuizlet(cards),
+    markdown: () => toMarkdown(cards, columns),
+  }[options.format]();
+
+  const { extension, mimeType } = FILE_TYPES[options.format];
+  const date = new Date().toISOString().slice(0, 10);
+
+  return { content, mimeType, filename: `vocabulary-${date}.${extension}`, count: cards.length };
+}
+
+/**
+ * CSV with a header row; list fields are joined with "; "
+ * @param cards - Cards to export
+ * @param columns - Card fields, in column order
+ * @param delimiter - Field delimiter
+ */
+export function toCSV(cards: Collocation[], columns: CardField[], delimiter: CsvDelimiter = ','): string {
+  const quote = (value: string) =>
+    new RegExp(`["\\r\\n${delimiter === '\t' ? '\\t' : delimiter}]`).test(value)
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+
+  const rows = [
+    columns.join(delimiter),
+    ...cards.map(card =>
+      columns.map(column => quote(getCardFieldValues(card, column).join('; '))).join(delimiter)
+    ),
+  ];
+
+  // BOM so Excel opens UTF-8 (IPA, Vietnamese) correctly
+  return `\uFEFF${rows.join('\r\n')}\r\n`;
+}
+
+/**
+ * Anki text import: Front, Back (HTML) and Tags columns with file headers
+ * @param cards - Cards to export
+ */
+export function toAnkiTSV(cards: Collocation[]): string {
+  const headers = ['#separator:tab', '#html:true', '#columns:Front\tBack\tTags', '#tags column:3'];
+
+  const rows = cards.map(card => {
+    const back = [
+      card.ipa && `<span class="ipa">${escapeHtml(card.ipa)}</span>`,
+      card.meaning && `<b>${escapeHtml(card.meaning)}</b>`,
+      card.partOfSpeech && `<i>${escapeHtml(card.partOfSpeech)}</i>`,
+      card.synonyms?.length && `≈ ${escapeHtml(card.synonyms.join(', '))}`,
+      ...(card.examples || []).map(example => `<i>${escapeHtml(example)}</i>`),
+    ].filter(Boolean);
+
+    const tags = (card.tags || []).map(tag => tag.trim().replace(/\s+/g, '_'));
+    if (card.cefrLevel) tags.push(`CEFR::${card.cefrLevel}`);
+
+    return [escapeHtml(card.collocation), back.join('<br>'), tags.join(' ')].map(stripControl).join('\t');
+  });
+
+  return `${[...headers, ...rows].join('\n')}\n`;
+}
+
+/**
+ * JSON with every card field and export metadata
+ * @param cards - Cards to export
+ */
+export function toJSON(cards: Collocation[]): string {
+  return JSON.stringify(
+    {
+      version: CARD_VERSION,
+      exportedAt: new Date().toISOString(),
+      count: cards.length,
+      collocations: cards,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Quizlet import format: term<TAB>definition, one card per line
+ * @param cards - Cards to export
+ */
+export function toQuizlet(cards: Collocation[]): string {
+  return cards
+    .map(card => {
+      const definition = [card.meaning, card.ipa].filter(Boolean).join(' ');
+      return `${stripControl(card.collocation)}\t${stripControl(definition)}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Markdown table
+ * @param cards - Cards to export
+ * @param columns - Card fields, in column order
+ */
+export function toMarkdown(cards: Collocation[], columns: CardField[]): string {
+  const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*[\r\n]+\s*/g, ' ');
+
+  const rows = [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...cards.map(card => `| ${columns.map(column => cell(getCardFieldValues(card, column).join(', '))).join(' | ')} |`),
+  ];
+
+  return `${rows.join('\n')}\n`;
+}
+
+// Tabs and newlines would break line-based import formats
+function stripControl(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
@@ -0,0 +1,209 @@
+/**
+ * Bulk word import
+ * Parses pasted text, .txt/.csv files and exported JSON into queue entries
+ */
+
+import { db } from '../cache/db';
+import { checkWordsWithCache } from '../cache/strategies';
+import { checkWordsExist } from '../api/server';
+import { sanitizeWord, validateWord } from '../utils/validation';
+
+const CSV_HEADERS = ['word', 'words', 'term', 'collocation', 'headword'];
+
+export interface InvalidImportEntry {
+  word: string;
+  error: string; // i18n key from validateWord
+}
+
+export interface ImportPreview {
+  new: string[]; // Not on the server and not queued
+  unverified: string[]; // Existence could not be checked (server unreachable)
+  known: string[]; // Already on the server
+  queued: string[]; // Already in the queue
+  invalid: InvalidImportEntry[];
+}
+
+/**
+ * Extract candidate words from imported content
+ * @param text - File or clipboard content
+ * @param filename - File name, used to pick the parser
+ * @returns Raw entries in input order
+ */
+export function parseImportText(text: string, filename: string = ''): string[] {
+  const name = filename.toLowerCase();
+  const trimmed = text.replace(/^\uFEFF/, '').trim(); // Our CSV export starts with a BOM
+
+  if (name.endsWith('.json') || /^[[{]/.test(trimmed)) {
+    return parseJSON(trimmed);
+  }
+  if (name.endsWith('.csv')) {
+    return parseCSV(trimmed);
+  }
+
+  // Plain text: one entry per line, comma, semicolon or tab
+  return trimmed.split(/[\r\n,;\t]+/);
+}
+
+/**
+ * Sanitize entries and drop duplicates (case-insensitive), keeping the first spelling
+ * @param entries - Raw entries
+ */
+export function tokenizeImport(entries: string[]): string[] {
+  const seen = new Set<string>();
+  const words: string[] = [];
+
+  for (const entry of entries) {
+    const word = sanitizeWord(entry.replace(/^["']|["']$/g, ''));
+    const key = word.toLowerCase();
+
+    if (word && !seen.has(key)) {
+      seen.add(key);
+      words.push(word);
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Sort words into new / known / queued / invalid
+ * @param words - Tokenized words
+ */
+export async function previewImport(words: string[]): Promise<ImportPreview> {
+  const preview: ImportPreview = { new: [], unverified: [], known: [], queued: [], invalid: [] };
+  const valid: string[] = [];
+
+  for (const word of words) {
+    const validation = validateWord(word);
+    if (validation.valid) {
+      valid.push(word);
+    } else {
+      preview.invalid.push({ word, error: validation.error! });
+    }
+  }
+
+  const queued = await db.queue.bulkGet(valid);
+  const toCheck: string[] = [];
+  valid.forEach((word, index) => (queued[index] ? preview.queued : toCheck).push(word));
+
+  const existence = await checkExistence(toCheck);
+  toCheck.forEach((word, index) => {
+    const exists = existence[index];
+    if (exists === null) {
+      preview.unverified.push(word);
+    } else if (exists) {
+      preview.known.push(word);
+    } else {
+      preview.new.push(word);
+    }
+  });
+
+  return preview;
+}
+
+/**
+ * Add words to the queue in one transaction, skipping any queued meanwhile
+ * @param words - Accepted words
+ * @returns Number of words added
+ */
+export async function enqueueImport(words: string[]): Promise<number> {
+  return db.transaction('rw', db.queue, async () => {
+    const existing = await db.queue.bulkGet(words);
+    const addedAt = new Date();
+
+    const items = words
+      .filter((_word, index) => !existing[index])
+      .map(word => ({ word, addedAt, status: 'pending' as const }));
+
+    await db.queue.bulkAdd(items);
+    return items.length;
+  });
+}
+
+/**
+ * Check existence for many words in as few requests as possible
+ * @returns true / false per word, or null if the check failed
+ */
+async function checkExistence(words: string[]): Promise<(boolean | null)[]> {
+  if (words.length === 0) {
+    return [];
+  }
+
+  try {
+    const results = await checkWordsWithCache(words, checkWordsExist);
+    return words.map(word => results[word] ?? null);
+  } catch {
+    return words.map(() => null);
+  }
+}
+
+// Exported JSON ({ collocations: [...] }) or a plain array of strings or cards
+function parseJSON(text: string): string[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return [];
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : (data as { collocations?: unknown; words?: unknown })?.collocations ??
+      (data as { words?: unknown })?.words;
+
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  return list.map(item => {
+    if (typeof item === 'string') return item;
+    const record = (item || {}) as Record<string, unknown>;
+    return String(record.headword || record.word || record.collocation || '');
+  });
+}
+
+// First column of each row; a header row is skipped.
+// Quoted fields may hold delimiters, doubled quotes and line breaks, as toCSV() writes them
+function parseCSV(text: string): string[] {
+  const rows: string[] = [];
+  let first = ''; // First field of the current row
+  let column = 0;
+  let quoted = false;
+  let fieldStart = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        if (column === 0) first += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else if (column === 0) {
+        first += char;
+      }
+    } else if (char === '"' && fieldStart) {
+      quoted = true;
+      fieldStart = false;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      column++;
+      fieldStart = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push(first);
+      first = '';
+      column = 0;
+      fieldStart = true;
+    } else {
+      if (column === 0) first += char;
+      fieldStart = false;
+    }
+  }
+  rows.push(first);
+
+  if (rows.length > 0 && CSV_HEADERS.includes(rows[0].replace(/'/g, '').trim().toLowerCase())) {
+    rows.shift();
+  }
+  return rows;
+}
@@ -0,0 +1,45 @@
+/**
+ * Active profile id and the storage keys of per-profile settings
+ * Kept apart from the profile store so the database, keychain and API clients can depend on it.
+ * The active profile is chosen per device; the profiles and their settings are synced
+ */
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const ACTIVE_PROFILE_KEY = 'activeProfile'; // In chrome.storage.local
+export const SERVER_URL_KEY = 'serverUrl';
+
+/**
+ * Id of the profile currently in use on this device
+ */
+export async function getActiveProfileId(): Promise<string> {
+  const result = await chrome.storage.local.get(ACTIVE_PROFILE_KEY);
+  return (result[ACTIVE_PROFILE_KEY] as string | undefined) || DEFAULT_PROFILE_ID;
+}
+
+/**
+ * Name of per-profile storage (databases, secrets, settings)
+ * The default profile keeps the unscoped name so existing installs keep their data
+ * @param base - Unscoped name
+ * @param profileId - Profile id
+ */
+export function profileScopedName(base: string, profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? base : `${base}:${profileId}`;
+}
+
+/**
+ * Storage key of a setting in the active profile
+ * @param base - Key used by the default profile
+ */
+export async function activeSettingKey(base: string): Promise<string> {
+  return profileScopedName(base, await getActiveProfileId());
+}
+
+/**
+ * Server URL of the active profile
+ * @returns The URL, or undefined when not configured
+ */
+export async function getActiveServerUrl(): Promise<string | undefined> {
+  const key = await activeSettingKey(SERVER_URL_KEY);
+  const result = await chrome.storage.sync.get(key);
+  return result[key] as string | undefined;
+}
@@ -0,0 +1,137 @@
+/**
+ * Named settings profiles (e.g. a local dev server and the team server)
+ * Each profile keeps its settings under its own storage keys, so switching only
+ * changes which keys are read. Each profile also has its own database and secrets
+ */
+
+import {
+  DEFAULT_PROFILE_ID,
+  ACTIVE_PROFILE_KEY,
+  getActiveProfileId,
+  profileScopedName,
+} from './active';
+import { deleteDatabase, selectDatabase } from '../cache/db';
+import { removeProfileSecrets } from '../security/keychain';
+import type { AIProviderConfig } from '../api/providers';
+import type { PromptSettings } from '../prompts/templates';
+import type { GenerationRequest } from '../types/messages';
+
+export { DEFAULT_PROFILE_ID, getActiveProfileId } from './active';
+
+const PROFILES_KEY = 'profiles';
+
+/**
+ * Synced settings a profile keeps its own copy of, under their storage keys
+ */
+export interface ProfileSettings {
+  serverUrl?: string;
+  aiProvider?: Partial<AIProviderConfig>;
+  promptSettings?: PromptSettings;
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+const PROFILE_SETTING_KEYS: (keyof ProfileSettings)[] = ['serverUrl', 'aiProvider', 'promptSettings'];
+
+// Sign-in stays on the device, next to the tokens in the keychain
+const PROFILE_LOCAL_KEYS = ['authSettings'];
+
+const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: 'Default' };
+
+/**
+ * All profiles, the default profile first
+ */
+export async function getProfiles(): Promise<Profile[]> {
+  const result = await chrome.storage.sync.get(PROFILES_KEY);
+  const stored = (result[PROFILES_KEY] as Profile[] | undefined) || [];
+
+  return stored.some(profile => profile.id === DEFAULT_PROFILE_ID) ? stored : [DEFAULT_PROFILE, ...stored];
+}
+
+/**
+ * The profile currently in use
+ */
+export async function getActiveProfile(): Promise<Profile> {
+  const [profiles, activeId] = await Promise.all([getProfiles(), getActiveProfileId()]);
+  return profiles.find(profile => profile.id === activeId) || profiles[0];
+}
+
+/**
+ * Settings stored for a profile
+ * @param id - Profile id
+ */
+export async function getProfileSettings(id: string): Promise<ProfileSettings> {
+  const keys = PROFILE_SETTING_KEYS.map(key => profileScopedName(key, id));
+  const result = await chrome.storage.sync.get(keys);
+
+  return Object.fromEntries(PROFILE_SETTING_KEYS.map((key, index) => [key, result[keys[index]]]));
+}
+
+/**
+ * Create a profile from the current settings
+ * Sign-in is not copied; secrets stay with the profile they were entered in
+ * @param name - Display name
+ */
+export async function createProfile(name: string): Promise<Profile> {
+  const settings = await getProfileSettings(await getActiveProfileId());
+  const profile: Profile = { id: crypto.randomUUID(), name: name.trim() };
+
+  await chrome.storage.sync.set(Object.fromEntries(
+    Object.entries(settings)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [profileScopedName(key, profile.id), value])
+  ));
+  await saveProfiles([...(await getProfiles()), profile]);
+  return profile;
+}
+
+/**
+ * Rename a profile
+ * @param id - Profile id
+ * @param name - New display name
+ */
+export async function renameProfile(id: string, name: string): Promise<void> {
+  const profiles = await getProfiles();
+  await saveProfiles(profiles.map(profile => profile.id === id ? { ...profile, name: name.trim() } : profile));
+}
+
+/**
+ * Delete a profile with its settings, database and secrets
+ * The default and the active profile cannot be deleted
+ * @param id - Profile id
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  if (id === DEFAULT_PROFILE_ID || id === (await getActiveProfileId())) {
+    throw new Error('The default or active profile cannot be deleted');
+  }
+
+  await saveProfiles((await getProfiles()).filter(profile => profile.id !== id));
+  await chrome.storage.sync.remove(PROFILE_SETTING_KEYS.map(key => profileScopedName(key, id)));
+  await chrome.storage.local.remove(PROFILE_LOCAL_KEYS.map(key => profileScopedName(key, id)));
+  await deleteDatabase(id);
+  await removeProfileSecrets(id);
+}
+
+/**
+ * Make a profile active on this device
+ * Stops generation first. Other extension contexts follow through the storage change
+ * @param id - Profile id
+ */
+export async function switchProfile(id: string): Promise<void> {
+  const [profiles, activeId] = await Promise.all([getProfiles(), getActiveProfileId()]);
+  if (!profiles.some(profile => profile.id === id) || id === activeId) return;
+
+  // A running job uploads with the current server settings; wait until it has stopped
+  const stop: GenerationRequest = { action: 'stopGeneration' };
+  await chrome.runtime.sendMessage(stop).catch(() => undefined);
+
+  await chrome.storage.local.set({ [ACTIVE_PROFILE_KEY]: id });
+  selectDatabase(id);
+}
+
+async function saveProfiles(profiles: Profile[]) {
+  await chrome.storage.sync.set({ [PROFILES_KEY]: profiles });
+}
@@ -0,0 +1,103 @@
+/**
+ * SM-2 spaced-repetition scheduler
+ * Four grades in the style of Anki: again / hard / good / easy
+ */
+
+import type { ReviewCard, ReviewGrade } from '../types/models';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const DAY = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY = 10 * 60 * 1000; // Forgotten cards come back after 10 minutes
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const HARD_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+// SM-2 response quality (0-5) for each grade
+const QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export type ScheduleState = Pick<ReviewCard, 'ease' | 'interval' | 'repetitions' | 'lapses' | 'due'>;
+
+/**
+ * Scheduling state for a card that has never been reviewed
+ * @param now - Creation time (ms); the card is due immediately
+ */
+export function initialSchedule(now: number = Date.now()): ScheduleState {
+  return { ease: INITIAL_EASE, interval: 0, repetitions: 0, lapses: 0, due: now };
+}
+
+/**
+ * Compute the next scheduling state after a review
+ * @param card - Current state
+ * @param grade - How well the card was recalled
+ * @param now - Review time (ms)
+ * @returns New state
+ */
+export function scheduleReview(card: ScheduleState, grade: ReviewGrade, now: number = Date.now()): ScheduleState {
+  const quality = QUALITY[grade];
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (grade === 'again') {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due: now + RELEARN_DELAY,
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let interval: number;
+
+  if (repetitions === 1) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (repetitions === 2) {
+    interval = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+  } else {
+    const multiplier = grade === 'hard' ? HARD_MULTIPLIER : grade === 'easy' ? ease * EASY_BONUS : ease;
+    // Always move forward by at least a day
+    interval = Math.max(card.interval + 1, Math.round(card.interval * multiplier));
+  }
+
+  return {
+    ease,
+    interval,
+    repetitions,
+    lapses: card.lapses,
+    due: now + interval * DAY,
+  };
+}
+
+/**
+ * Time until the next review for each grade, for labelling the grade buttons
+ * @param card - Current state
+ * @param now - Review time (ms)
+ * @returns Delay in ms keyed by grade
+ */
+export function previewIntervals(card: ScheduleState, now: number = Date.now()): Record<ReviewGrade, number> {
+  return Object.fromEntries(
+    REVIEW_GRADES.map(grade => [grade, scheduleReview(card, grade, now).due - now])
+  ) as Record<ReviewGrade, number>;
+}
+
+/**
+ * Format a delay as a short label ("10m", "3d", "2mo")
+ * @param ms - Delay in milliseconds
+ */
+export function formatInterval(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+
+  const days = Math.round(ms / DAY);
+  if (days < 1) return `${Math.round(minutes / 60)}h`;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
@@ -0,0 +1,162 @@
+/**
+ * Review deck storage
+ * Cards and review history live in IndexedDB; history is synced through the outbox
+ */
+
+import { db } from '../cache/db';
+import { enqueueSync } from '../sync/outbox';
+import type { Collocation, ReviewCard, ReviewGrade, ReviewLogEntry } from '../types/models';
+import { initialSchedule, scheduleReview } from './scheduler';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Card id for a collocation
+ * @param collocation - Collocation text
+ */
+export function reviewCardId(collocation: string): string {
+  return collocation.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Create cards for new collocations and refresh the content of existing ones
+ * Scheduling state of existing cards is kept
+ * @param collocations - Collocations to study
+ * @returns Number of new cards
+ */
+export async function addReviewCards(collocations: Collocation[]): Promise<number> {
+  const now = Date.now();
+  const byId = new Map(collocations.map(c => [reviewCardId(c.collocation), c]));
+  const ids = [...byId.keys()];
+
+  return db.transaction('rw', db.reviewCards, async () => {
+    const existing = await db.reviewCards.bulkGet(ids);
+
+    const cards: ReviewCard[] = ids.map((id, index) => {
+      const collocation = byId.get(id)!;
+      const card = existing[index];
+
+      return {
+        ...(card ?? { id, createdAt: now, ...initialSchedule(now) }),
+        collocation: collocation.collocation,
+        headword: collocation.headword,
+        ipa: collocation.ipa,
+        meaning: collocation.meaning,
+        synonyms: collocation.synonyms,
+        examples: collocation.examples,
+      };
+    });
+
+    await db.reviewCards.bulkPut(cards);
+    return existing.filter(card => !card).length;
+  });
+}
+
+/**
+ * Remove the cards of deleted collocations
+ * Their review history is kept
+ * @param collocations - Collocation texts
+ * @returns The removed cards
+ */
+export async function removeReviewCards(collocations: string[]): Promise<ReviewCard[]> {
+  const ids = [...new Set(collocations.map(reviewCardId))];
+
+  return db.transaction('rw', db.reviewCards, async () => {
+    const cards = (await db.reviewCards.bulkGet(ids)).filter((card): card is ReviewCard => !!card);
+    await db.reviewCards.bulkDelete(ids);
+    return cards;
+  });
+}
+
+/**
+ * Remove every card, after all collocations were deleted
+ * @returns The removed cards
+ */
+export async function clearReviewCards(): Promise<ReviewCard[]> {
+  return db.transaction('rw', db.reviewCards, async () => {
+    const cards = await db.reviewCards.toArray();
+    await db.reviewCards.clear();
+    return cards;
+  });
+}
+
+/**
+ * Put back cards removed by a delete that was undone
+ * Cards created again in the meantime are kept
+ * @param cards - Cards as they were before the delete
+ */
+export async function restoreReviewCards(cards: ReviewCard[]): Promise<void> {
+  await db.transaction('rw', db.reviewCards, async () => {
+    const existing = await db.reviewCards.bulkGet(cards.map(card => card.id));
+    await db.reviewCards.bulkPut(cards.filter((_, index) => !existing[index]));
+  });
+}
+
+/**
+ * Get cards due for review, most overdue first
+ * @param limit - Maximum number of cards
+ * @param now - Reference time (ms)
+ */
+export async function getDueCards(limit: number, now: number = Date.now()): Promise<ReviewCard[]> {
+  return db.reviewCards.where('due').belowOrEqual(now).limit(limit).toArray();
+}
+
+/**
+ * Count cards due for review
+ * @param now - Reference time (ms)
+ */
+export async function getDueCount(now: number = Date.now()): Promise<number> {
+  return db.reviewCards.where('due').belowOrEqual(now).count();
+}
+
+/**
+ * Grade a card, reschedule it and record the review
+ * The history entry is queued for upload to the server
+ * @param id - Card id
+ * @param grade - How well the card was recalled
+ * @returns Updated card
+ */
+export async function gradeCard(id: string, grade: ReviewGrade): Promise<ReviewCard> {
+  const now = Date.now();
+
+  const { card, entry } = await db.transaction('rw', db.reviewCards, db.reviewLog, async () => {
+    const current = await db.reviewCards.get(id);
+    if (!current) {
+      throw new Error(`Review card not found: ${id}`);
+    }
+
+    const card: ReviewCard = { ...current, ...scheduleReview(current, grade, now), lastReviewedAt: now };
+    const entry: ReviewLogEntry = {
+      id: crypto.randomUUID(),
+      cardId: id,
+      grade,
+      reviewedAt: now,
+      interval: card.interval,
+      ease: card.ease,
+      elapsedDays: current.lastReviewedAt ? Math.floor((now - current.lastReviewedAt) / DAY) : 0,
+    };
+
+    await db.reviewCards.put(card);
+    await db.reviewLog.add(entry);
+    return { card, entry };
+  });
+
+  await enqueueSync('review', { reviews: [entry] });
+  return card;
+}
+
+/**
+ * Get the review history of a card, oldest first
+ * @param cardId - Card id
+ */
+export async function getReviewHistory(cardId: string): Promise<ReviewLogEntry[]> {
+  return db.reviewLog.where('cardId').equals(cardId).sortBy('reviewedAt');
+}
+
+/**
+ * Count reviews done since a given time
+ * @param since - Start time (ms)
+ */
+export async function getReviewCountSince(since: number): Promise<number> {
+  return db.reviewLog.where('reviewedAt').aboveOrEqual(since).count();
+}
@@ -1,9 +1,11 @@
 /**
  * Secure keychain for storing sensitive data
- * Uses encryption to protect API keys and other secrets
+ * Uses encryption to protect API keys and other secrets.
+ * Secrets belong to the active profile
  */
 
 import { encrypt, decrypt, isEncrypted } from './encryption';
+import { getActiveProfileId, profileScopedName } from '../profiles/active';
 
 const SECURE_STORAGE_PREFIX = 'secure_';
 
@@ -15,7 +17,7 @@ const SECURE_STORAGE_PREFIX = 'secure_';
 export async function secureStore(key: string, value: string): Promise<void> {
   try {
     const encrypted = await encrypt(value);
-    const storageKey = SECURE_STORAGE_PREFIX + key;
+    const storageKey = await secureStorageKey(key);
 
     await chrome.storage.local.set({ [storageKey]: encrypted });
   } catch (error) {
@@ -31,7 +33,7 @@ export async function secureStore(key: string, value: string): Promise<void> {
  */
 export async function secureRetrieve(key: string): Promise<string | null> {
   try {
-    const storageKey = SECURE_STORAGE_PREFIX + key;
+    const storageKey = await secureStorageKey(key);
     const result = await chrome.storage.local.get(storageKey);
 
     if (!result[storageKey]) {
@@ -51,10 +53,28 @@ export async function secureRetrieve(key: string): Promise<string | null> {
  * @param key - Storage key
  */
 export async function secureRemove(key: string): Promise<void> {
-  const storageKey = SECURE_STORAGE_PREFIX + key;
+  const storageKey = await secureStorageKey(key);
   await chrome.storage.local.remove(storageKey);
 }
 
+/**
+ * Remove every secret stored for a profile
+ * @param profileId - Profile id; the default profile's secrets are never removed this way
+ */
+export async function removeProfileSecrets(profileId: string): Promise<void> {
+  const suffix = profileScopedName('', profileId);
+  if (!suffix) return;
+
+  const stored = await chrome.storage.local.get(null);
+  const keys = Object.keys(stored).filter(key => key.startsWith(SECURE_STORAGE_PREFIX) && key.endsWith(suffix));
+  await chrome.storage.local.remove(keys);
+}
+
+// Storage key of a secret in the active profile
+async function secureStorageKey(key: string): Promise<string> {
+  return SECURE_STORAGE_PREFIX + profileScopedName(key, await getActiveProfileId());
+}
+
 /**
  * Migrate plaintext API key to encrypted storage
  * This is a one-time migration for existing users
@@ -106,3 +126,37 @@ export async function retrieveApiKey(): Promise<string | null> {
 export async function removeApiKey(): Promise<void> {
   await secureRemove('aiApiKey');
 }
+
+/**
+ * Storage key for an AI provider's API key
+ * Gemini keeps the original key name so existing installs keep working
+ */
+function providerKeyName(provider: string): string {
+  return provider === 'gemini' ? 'aiApiKey' : `aiApiKey_${provider}`;
+}
+
+/**
+ * Store an AI provider's API key securely
+ * @param provider - Provider id
+ * @param apiKey - The API key to store
+ */
+export async function storeProviderApiKey(provider: string, apiKey: string): Promise<void> {
+  await secureStore(providerKeyName(provider), apiKey);
+}
+
+/**
+ * Retrieve an AI provider's API key
+ * @param provider - Provider id
+ * @returns The decrypted API key or null
+ */
+export async function retrieveProviderApiKey(provider: string): Promise<string | null> {
+  return await secureRetrieve(providerKeyName(provider));
+}
+
+/**
+ * Remove an AI provider's API key from storage
+ * @param provider - Provider id
+ */
+export async function removeProviderApiKey(provider: string): Promise<void> {
+  await secureRemove(providerKeyName(provider));
+}
@@ -0,0 +1,253 @@
+/**
+ * Offline write-ahead outbox
+ * Persists every mutating server call in the syncQueue table and replays
+ * them in order when the server becomes reachable
+ */
+
+import { db } from '../cache/db';
+import {
+  addCollocations,
+  addReviews,
+  deleteAll,
+  deleteCollocation,
+  updateCollocation,
+} from '../api/server';
+import { APIError } from '../utils/error-handler';
+import type { Collocation, CollocationChanges, ReviewLogEntry, SyncAction, SyncQueueItem } from '../types/models';
+
+// Replay settings
+const DEFAULT_MAX_RETRIES = 5;
+const BASE_BACKOFF = 60 * 1000; // 1 minute
+const MAX_BACKOFF = 60 * 60 * 1000; // 1 hour
+const SYNC_LOCK_NAME = 'vocab-sync-queue';
+
+// Client errors that may succeed on replay (401: signed out, waiting for sign-in)
+const RETRYABLE_CLIENT_STATUSES = [401, 408, 429];
+
+export const SYNC_ALARM_NAME = 'syncQueue';
+
+export interface SyncFlushResult {
+  synced: number;
+  pending: number;
+  dead: number;
+  results: Record<string, unknown>; // Server responses keyed by item id
+}
+
+export interface SyncOutcome<T> {
+  queued: boolean; // true if the action is persisted but not yet delivered
+  result?: T;
+}
+
+type SyncHandler = (data: unknown) => Promise<unknown>;
+
+/**
+ * Server calls used to replay each action
+ */
+const handlers: Partial<Record<SyncAction, SyncHandler>> = {
+  add: data => addCollocations((data as { collocations: Collocation[] }).collocations),
+  update: data => {
+    const { id, changes } = data as { id: string; changes: CollocationChanges };
+    return updateCollocation(id, changes);
+  },
+  delete: data => deleteCollocation((data as { id: string }).id),
+  deleteAll: () => deleteAll(),
+  review: data => addReviews((data as { reviews: ReviewLogEntry[] }).reviews),
+};
+
+let lastTimestamp = 0;
+
+/**
+ * Persist an action in the outbox
+ * @param action - Sync action type
+ * @param data - Action payload
+ * @param maxRetries - Attempts before the item is moved to the dead-letter view
+ * @returns The stored outbox item
+ */
+export async function enqueueSync(
+  action: SyncAction,
+  data: unknown,
+  maxRetries: number = DEFAULT_MAX_RETRIES
+): Promise<SyncQueueItem> {
+  // Keep timestamps strictly increasing so replay order matches enqueue order
+  const timestamp = Math.max(Date.now(), lastTimestamp + 1);
+  lastTimestamp = timestamp;
+
+  const item: SyncQueueItem = {
+    id: crypto.randomUUID(),
+    action,
+    data,
+    timestamp,
+    retries: 0,
+    maxRetries,
+    status: 'pending',
+    nextAttemptAt: timestamp,
+  };
+
+  await db.syncQueue.add(item);
+  return item;
+}
+
+/**
+ * Replay pending outbox items in order
+ * Stops at the first item that is not yet due or fails again,
+ * so later actions never overtake earlier ones
+ * @returns Counts of synced, pending and dead items
+ */
+export async function flushSyncQueue(): Promise<SyncFlushResult> {
+  // Web Locks are shared between the popup, options page and service worker
+  return navigator.locks.request(SYNC_LOCK_NAME, async () => {
+    const results: Record<string, unknown> = {};
+    let synced = 0;
+
+    const items = await getPendingItems();
+
+    for (const item of items) {
+      if (item.nextAttemptAt > Date.now()) {
+        break;
+      }
+
+      try {
+        results[item.id] = await replayItem(item);
+        await db.syncQueue.delete(item.id);
+        synced++;
+      } catch (error) {
+        const moved = await recordFailure(item, error);
+        if (!moved) {
+          break;
+        }
+      }
+    }
+
+    return {
+      synced,
+      pending: await db.syncQueue.where('status').equals('pending').count(),
+      dead: await db.syncQueue.where('status').equals('dead').count(),
+      results,
+    };
+  });
+}
+
+/**
+ * Persist an action and try to deliver it immediately
+ * @param action - Sync action type
+ * @param data - Action payload
+ * @returns Server response, or queued = true when delivery is deferred
+ */
+export async function syncOrQueue<T>(action: SyncAction, data: unknown): Promise<SyncOutcome<T>> {
+  const item = await enqueueSync(action, data);
+  const flush = await flushSyncQueue();
+
+  if (item.id in flush.results) {
+    return { queued: false, result: flush.results[item.id] as T };
+  }
+
+  // Another context may have delivered it while we waited for the lock
+  const stillQueued = await db.syncQueue.get(item.id);
+  return { queued: !!stillQueued };
+}
+
+/**
+ * Get items that exceeded their retry budget
+ */
+export async function getDeadLetters(): Promise<SyncQueueItem[]> {
+  return db.syncQueue.where('status').equals('dead').sortBy('timestamp');
+}
+
+/**
+ * Get number of items waiting to be replayed
+ */
+export async function getPendingSyncCount(): Promise<number> {
+  return db.syncQueue.where('status').equals('pending').count();
+}
+
+/**
+ * Move a dead-letter item back into the outbox with a fresh retry budget
+ * @param id - Outbox item id
+ */
+export async function retryDeadLetter(id: string): Promise<void> {
+  await db.syncQueue.update(id, {
+    status: 'pending',
+    retries: 0,
+    nextAttemptAt: Date.now(),
+    lastError: undefined,
+  });
+}
+
+/**
+ * Move all dead-letter items back into the outbox
+ */
+export async function retryAllDeadLetters(): Promise<void> {
+  const dead = await getDeadLetters();
+  for (const item of dead) {
+    await retryDeadLetter(item.id);
+  }
+}
+
+/**
+ * Permanently drop a dead-letter item
+ * @param id - Outbox item id
+ */
+export async function discardDeadLetter(id: string): Promise<void> {
+  await db.syncQueue.delete(id);
+}
+
+/**
+ * Get pending items in replay order
+ */
+async function getPendingItems(): Promise<SyncQueueItem[]> {
+  return db.syncQueue.where('status').equals('pending').sortBy('timestamp');
+}
+
+/**
+ * Execute the server call for an outbox item
+ */
+async function replayItem(item: SyncQueueItem): Promise<unknown> {
+  const handler = handlers[item.action];
+
+  if (!handler) {
+    throw new Error(`No sync handler for action "${item.action}"`);
+  }
+
+  return handler(item.data);
+}
+
+/**
+ * Record a failed attempt and schedule the next one
+ * @returns true if the item was moved to the dead-letter view
+ */
+async function recordFailure(item: SyncQueueItem, error: unknown): Promise<boolean> {
+  const retries = item.retries + 1;
+  const lastError = error instanceof Error ? error.message : String(error);
+
+  if (retries >= item.maxRetries || isPermanentFailure(error) || !handlers[item.action]) {
+    await db.syncQueue.update(item.id, { status: 'dead', retries, lastError });
+    return true;
+  }
+
+  await db.syncQueue.update(item.id, {
+    retries,
+    lastError,
+    nextAttemptAt: Date.now() + getBackoff(retries),
+  });
+  return false;
+}
+
+/**
+ * Exponential backoff for the given attempt number
+ */
+function getBackoff(retries: number): number {
+  return Math.min(BASE_BACKOFF * Math.pow(2, retries - 1), MAX_BACKOFF);
+}
+
+/**
+ * Client errors (other than auth, timeouts and rate limits) will fail on every replay
+ */
+function isPermanentFailure(error: unknown): boolean {
+  return (
+    error instanceof APIError &&
+    error.statusCode !== undefined &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    !RETRYABLE_CLIENT_STATUSES.includes(error.statusCode)
+  );
+}
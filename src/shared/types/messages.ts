@@ -0,0 +1,93 @@
+/**
+ * Runtime message protocol between extension pages and the service worker
+ */
+
+import type { Collocation, GenerationJob } from './models';
+
+export type GenerationRequest =
+  | { action: 'startGeneration'; words?: string[] } // Only these words when given
+  | { action: 'cancelGeneration' }
+  | { action: 'stopGeneration' } // Cancel and wait until the job has stopped writing
+  | { action: 'getGenerationStatus' };
+
+export interface GenerationProgressMessage {
+  action: 'generationProgress';
+  job: GenerationJob;
+}
+
+export interface GenerationStatusResponse {
+  job: GenerationJob | null;
+}
+
+export interface SelectionContextRequest {
+  action: 'getSelectionContext';
+}
+
+/**
+ * Selection details captured by the content script (dates as ISO strings for messaging)
+ */
+export interface SelectionContextResponse {
+  text: string;
+  sentence?: string;
+  title: string;
+  url: string;
+  capturedAt: string;
+}
+
+export interface LookupWordRequest {
+  action: 'lookupWord';
+  word: string;
+}
+
+export interface LookupWordResponse {
+  word: string; // Sanitized word
+  valid: boolean;
+  exists: boolean; // Already in the server vocabulary
+  inQueue: boolean;
+  collocations: Collocation[]; // Cached AI results, if any
+  error?: string; // Set when the server could not be reached
+}
+
+export interface AddToQueueRequest {
+  action: 'addToQueue';
+  word: string;
+  context?: SelectionContextResponse;
+}
+
+export interface AddToQueueResponse {
+  result: 'added' | 'exists' | 'inQueue' | 'invalid' | 'error';
+  word: string;
+  count?: number; // Queue size after adding
+}
+
+export interface GetVocabularyRequest {
+  action: 'getVocabulary';
+}
+
+/**
+ * Compact vocabulary entry used by the page highlighter
+ */
+export interface VocabularyEntry {
+  term: string; // Headword or collocation to match on the page
+  collocation: string;
+  ipa?: string;
+  meaning?: string;
+}
+
+export interface GetVocabularyResponse {
+  entries: VocabularyEntry[];
+}
+
+/**
+ * Sent by the review page after grading so the badge stays current
+ */
+export interface ReviewUpdatedRequest {
+  action: 'reviewUpdated';
+}
+
+export type RuntimeRequest =
+  | GenerationRequest
+  | LookupWordRequest
+  | AddToQueueRequest
+  | GetVocabularyRequest
+  | ReviewUpdatedRequest;
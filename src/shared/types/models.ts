@@ -1,11 +1,48 @@
 // Core domain models
 
+export const CARD_VERSION = 2;
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export interface CardSource {
+  url?: string;
+  title?: string;
+  sentence?: string; // Sentence the word was selected from
+  capturedAt?: Date;
+}
+
+/**
+ * Vocabulary card
+ * v1 records only carry collocation, ipa, meaning, synonyms (comma string) and createdAt;
+ * use normalizeCollocation() before reading data from the server or older caches
+ */
 export interface Collocation {
+  id?: string; // Server id; absent on cards that were never uploaded
+  version?: number;
   collocation: string;
+  headword?: string; // Lemma the collocation was generated for
+  partOfSpeech?: string;
   ipa?: string;
   meaning?: string;
-  synonyms?: string;
+  synonyms?: string[];
+  antonyms?: string[];
+  examples?: string[];
+  cefrLevel?: CefrLevel;
+  tags?: string[];
+  source?: CardSource;
   createdAt?: Date;
+  updatedAt?: Date; // Last change on the server; used to resolve edit conflicts
+}
+
+/**
+ * v1 record shape as stored by older clients
+ */
+export interface LegacyCollocation {
+  collocation: string;
+  ipa?: string;
+  meaning?: string;
+  synonyms?: string;
+  createdAt?: Date | string;
 }
 
 export interface WordQueueItem {
@@ -13,6 +50,47 @@ export interface WordQueueItem {
   addedAt: Date;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   error?: string;
+  context?: CardSource; // Where the word was selected, if added from a page
+  position?: number; // Set when the queue is reordered; otherwise ordered by addedAt
+}
+
+export interface WordGenerationResult {
+  word: string; // Source word as sent to the AI
+  lemma: string; // Normalized form produced by the AI
+  collocations: Collocation[];
+  error?: string; // Set when this word produced no usable collocations
+  issues?: AIValidationIssue[];
+}
+
+export interface AIValidationIssue {
+  word: string; // Source word ('' for envelope-level issues)
+  index?: number; // Position of the collocation within the word's results
+  field: string;
+  message: string;
+  action: 'repaired' | 'rejected';
+}
+
+export interface AIValidationReport {
+  issues: AIValidationIssue[];
+  accepted: number;
+  repaired: number;
+  rejected: number;
+}
+
+export interface GenerationJob {
+  id: string;
+  words: string[];
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  processed: number; // Words finished so far (completed or failed)
+  total: number;
+  failed: number; // Words left in the queue with an error
+  collocationCount: number;
+  queued: boolean; // true if the upload is waiting in the offline outbox
+  error?: string;
+  pauseReason?: 'rateLimit' | 'quota';
+  resumeAt?: number; // When a paused job continues by itself
+  startedAt: number;
+  finishedAt?: number;
 }
 
 export interface AppConfig {
@@ -21,6 +99,7 @@ export interface AppConfig {
   theme: 'light' | 'dark' | 'auto';
   language: 'en' | 'vi';
   notificationsEnabled: boolean;
+  chunkSize: number; // Words per AI request
 }
 
 export interface CacheEntry<T> {
@@ -29,11 +108,85 @@ export interface CacheEntry<T> {
   ttl: number; // Time to live in milliseconds
 }
 
+export type SyncAction = 'add' | 'delete' | 'update' | 'deleteAll' | 'review';
+
 export interface SyncQueueItem {
   id: string;
-  action: 'add' | 'delete' | 'update';
+  action: SyncAction;
   data: unknown;
   timestamp: number;
   retries: number;
   maxRetries: number;
+  status: 'pending' | 'dead'; // 'dead' = moved to dead-letter after maxRetries
+  nextAttemptAt: number; // Earliest time (ms) the item may be replayed
+  lastError?: string;
+}
+
+/**
+ * Collocation in the local mirror of the server's vocabulary
+ */
+export interface LocalCollocation extends Collocation {
+  key: string; // Server id, or the normalized collocation text for cards without one
+}
+
+/**
+ * Editable fields of a saved collocation
+ */
+export type CollocationChanges = Partial<Omit<Collocation, 'id' | 'version' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Copy of collocations taken before a destructive server call
+ */
+export interface CollocationBackup {
+  id: string;
+  reason: 'deleteAll' | 'delete';
+  createdAt: number;
+  complete: boolean; // false if taken from the offline copy, which may be stale
+  collocations: Collocation[];
+  reviewCards?: ReviewCard[]; // Review state of the cards, put back on restore
+}
+
+/**
+ * AI requests and tokens used with one provider on one day
+ */
+export interface AIUsageEntry {
+  id: string; // `${date}:${provider}`
+  date: string; // Local day, YYYY-MM-DD
+  provider: string;
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * Spaced-repetition state for one collocation (SM-2)
+ */
+export interface ReviewCard {
+  id: string; // Normalized collocation text
+  collocation: string;
+  headword?: string;
+  ipa?: string;
+  meaning?: string;
+  synonyms?: string[];
+  examples?: string[];
+  ease: number; // Ease factor, >= 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  lapses: number; // Times the card was forgotten
+  due: number; // Next review time (ms)
+  lastReviewedAt?: number;
+  createdAt: number;
+}
+
+export interface ReviewLogEntry {
+  id: string;
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  interval: number; // Interval scheduled by this review (days)
+  ease: number;
+  elapsedDays: number; // Days since the previous review
 }
@@ -0,0 +1,41 @@
+/**
+ * Zod schemas for validating data produced outside the extension
+ */
+
+import { z } from 'zod';
+
+/**
+ * A single vocabulary card as it must look before it is stored
+ */
+export const CollocationSchema = z.object({
+  collocation: z.string({ required_error: 'Collocation is missing' }).trim().min(1, 'Collocation is empty'),
+  ipa: z.string({ required_error: 'IPA is missing' }).trim().min(1, 'IPA is empty'),
+  meaning: z.string({ required_error: 'Meaning is missing' }).trim().min(1, 'Meaning is empty'),
+  headword: z.string().trim().optional(),
+  partOfSpeech: z.string().trim().optional(),
+  synonyms: z.array(z.string().trim()).default([]),
+  antonyms: z.array(z.string().trim()).default([]),
+  examples: z.array(z.string().trim()).default([]),
+  cefrLevel: z.enum(['A1', 'A2', 'B1', 'B2', 'C1', 'C2']).optional(),
+  tags: z.array(z.string().trim()).default([]),
+  createdAt: z.coerce.date().optional(),
+});
+
+/**
+ * One word's entry in the AI response; collocations are validated individually
+ */
+export const WordResultSchema = z.object({
+  word: z.string({ required_error: 'Word is missing' }).trim().min(1, 'Word is empty'),
+  lemma: z.string().trim().optional(),
+  collocations: z.array(z.unknown()),
+});
+
+/**
+ * Top-level AI response envelope; entries are validated individually
+ */
+export const GenerationResponseSchema = z.object({
+  results: z.array(z.unknown()),
+});
+
+export type ValidCollocation = z.infer<typeof CollocationSchema>;
+export type WordResult = z.infer<typeof WordResultSchema>;
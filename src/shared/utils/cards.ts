@@ -0,0 +1,156 @@
+/**
+ * Vocabulary card utilities
+ * Upgrades v1 records and converts cards to the server wire format
+ */
+
+import { CARD_VERSION } from '../types/models';
+import type { CardSource, CefrLevel, Collocation } from '../types/models';
+
+const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+/**
+ * Card fields that can be mapped to export columns or Anki note fields
+ */
+export const CARD_FIELDS = [
+  'collocation',
+  'headword',
+  'partOfSpeech',
+  'ipa',
+  'meaning',
+  'synonyms',
+  'antonyms',
+  'examples',
+  'cefrLevel',
+  'tags',
+  'sourceSentence',
+  'sourceUrl',
+  'createdAt',
+] as const;
+
+export type CardField = (typeof CARD_FIELDS)[number];
+
+/**
+ * Card as sent to the server
+ * synonyms stays a comma-separated string so servers that only know v1 keep working
+ */
+export interface ServerCollocation extends Omit<Collocation, 'synonyms'> {
+  synonyms?: string;
+}
+
+/**
+ * Split a list that may be stored as an array or a comma/semicolon-separated string
+ * @param value - Raw list value
+ * @returns Trimmed, non-empty entries
+ */
+export function splitList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;]/) : [];
+
+  return items
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Parse a CEFR level, ignoring anything that is not A1-C2
+ */
+export function parseCefrLevel(value: unknown): CefrLevel | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const level = value.trim().toUpperCase() as CefrLevel;
+  return CEFR_LEVELS.includes(level) ? level : undefined;
+}
+
+/**
+ * Upgrade any stored record (v1 or v2) to the current card shape
+ * @param raw - Record from the server or a cache
+ * @returns Card with list fields as arrays
+ */
+export function normalizeCollocation(raw: unknown): Collocation {
+  const record = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const id = record.id ?? record._id; // MongoDB servers return _id
+
+  const card: Collocation = {
+    id: id === undefined || id === null ? undefined : String(id),
+    version: CARD_VERSION,
+    collocation: String(record.collocation ?? ''),
+    headword: optionalString(record.headword),
+    partOfSpeech: optionalString(record.partOfSpeech),
+    ipa: optionalString(record.ipa),
+    meaning: optionalString(record.meaning),
+    synonyms: splitList(record.synonyms),
+    antonyms: splitList(record.antonyms),
+    examples: Array.isArray(record.examples) ? splitList(record.examples) : [],
+    cefrLevel: parseCefrLevel(record.cefrLevel),
+    tags: splitList(record.tags),
+    source: normalizeSource(record.source),
+    createdAt: record.createdAt ? new Date(record.createdAt as string) : undefined,
+    updatedAt: record.updatedAt ? new Date(record.updatedAt as string) : undefined,
+  };
+
+  return card;
+}
+
+/**
+ * Convert a card to the server wire format
+ * @param card - Card to send
+ */
+export function toServerCollocation(card: Collocation): ServerCollocation {
+  const { id: _id, updatedAt: _updatedAt, ...fields } = card; // The server assigns both
+  return {
+    ...fields,
+    version: CARD_VERSION,
+    synonyms: card.synonyms?.length ? card.synonyms.join(', ') : undefined,
+  };
+}
+
+/**
+ * Check that a value is a known card field
+ */
+export function isCardField(value: string): value is CardField {
+  return (CARD_FIELDS as readonly string[]).includes(value);
+}
+
+/**
+ * Read a card field as a list of plain-text values
+ * Single-value fields give at most one entry
+ * @param card - Card to read
+ * @param field - Field name
+ */
+export function getCardFieldValues(card: Collocation, field: CardField): string[] {
+  switch (field) {
+    case 'synonyms':
+    case 'antonyms':
+    case 'examples':
+    case 'tags':
+      return card[field] || [];
+    case 'sourceSentence':
+      return card.source?.sentence ? [card.source.sentence] : [];
+    case 'sourceUrl':
+      return card.source?.url ? [card.source.url] : [];
+    case 'createdAt':
+      return card.createdAt ? [card.createdAt.toISOString()] : [];
+    default:
+      return card[field] ? [card[field]!] : [];
+  }
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function normalizeSource(value: unknown): CardSource | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const source = value as Record<string, unknown>;
+  return {
+    url: optionalString(source.url),
+    title: optionalString(source.title),
+    sentence: optionalString(source.sentence),
+    capturedAt: source.capturedAt ? new Date(source.capturedAt as string) : undefined,
+  };
+}
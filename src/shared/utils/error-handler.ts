@@ -2,6 +2,8 @@
  * Custom error classes and error handling utilities
  */
 
+import type { AIValidationReport } from '../types/models';
+
 export class NetworkError extends Error {
   constructor(message: string, public statusCode?: number) {
     super(message);
@@ -23,6 +25,34 @@ export class APIError extends Error {
   }
 }
 
+export class RateLimitError extends APIError {
+  constructor(message: string, public retryAfter?: number, endpoint?: string) {
+    super(message, 429, endpoint);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string, public resetsAt: number) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class IncompatibleServerError extends Error {
+  constructor(message: string, public serverVersion?: string) {
+    super(message);
+    this.name = 'IncompatibleServerError';
+  }
+}
+
+export class UnsyncedChangesError extends Error {
+  constructor(message: string, public pendingCount: number) {
+    super(message);
+    this.name = 'UnsyncedChangesError';
+  }
+}
+
 export class ConfigError extends Error {
   constructor(message: string) {
     super(message);
@@ -30,6 +60,13 @@ export class ConfigError extends Error {
   }
 }
 
+export class AIResponseError extends Error {
+  constructor(message: string, public report: AIValidationReport) {
+    super(message);
+    this.name = 'AIResponseError';
+  }
+}
+
 export class TimeoutError extends Error {
   constructor(message: string = 'Request timeout') {
     super(message);
@@ -63,6 +100,10 @@ export function getErrorMessage(error: unknown): string {
     return error.message; // Validation errors already have i18n keys
   }
 
+  if (error instanceof IncompatibleServerError) {
+    return 'errors.api.incompatible';
+  }
+
   if (error instanceof APIError) {
     if (error.statusCode === 401 || error.statusCode === 403) {
       return 'errors.api.unauthorized';
@@ -73,6 +114,14 @@ export function getErrorMessage(error: unknown): string {
     return 'errors.api.generic';
   }
 
+  if (error instanceof AIResponseError) {
+    return 'errors.ai.invalidResponse';
+  }
+
+  if (error instanceof QuotaExceededError) {
+    return 'errors.ai.quotaExceeded';
+  }
+
   if (error instanceof ConfigError) {
     return 'errors.config.invalid';
   }
@@ -0,0 +1,13 @@
+/**
+ * HTML helpers
+ * Shared by the extension pages and the exporters, so they also work without a DOM
+ */
+
+/**
+ * Escape text for HTML templates, including attribute values
+ * @param text - Plain text
+ * @returns Text safe to place in markup
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,64 @@
+/**
+ * Lightweight English lemmatization
+ * Rule-based suffix stripping; good enough to match inflected forms to stored headwords
+ */
+
+const IRREGULAR_FORMS: Record<string, string> = {
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be',
+  has: 'have', had: 'have',
+  did: 'do', done: 'do', does: 'do',
+  made: 'make', took: 'take', taken: 'take', gave: 'give', given: 'give',
+  went: 'go', gone: 'go', got: 'get', gotten: 'get', came: 'come',
+  saw: 'see', seen: 'see', knew: 'know', known: 'know', thought: 'think',
+  found: 'find', told: 'tell', said: 'say', kept: 'keep', left: 'leave',
+  brought: 'bring', bought: 'buy', caught: 'catch', taught: 'teach',
+  ran: 'run', began: 'begin', begun: 'begin', wrote: 'write', written: 'write',
+  children: 'child', men: 'man', women: 'woman', people: 'person', feet: 'foot', teeth: 'tooth',
+};
+
+/**
+ * Possible base forms of a word, most likely first (always includes the word itself)
+ * @param word - Word as written on the page
+ * @returns Lower-case candidate lemmas
+ */
+export function lemmaCandidates(word: string): string[] {
+  const lower = word.toLowerCase();
+  const candidates = [lower];
+
+  const add = (form: string) => {
+    if (form.length > 1 && !candidates.includes(form)) {
+      candidates.push(form);
+    }
+  };
+
+  if (IRREGULAR_FORMS[lower]) {
+    add(IRREGULAR_FORMS[lower]);
+  }
+
+  if (lower.endsWith('ies')) add(`${lower.slice(0, -3)}y`);
+  if (lower.endsWith('es')) add(lower.slice(0, -2));
+  if (lower.endsWith('s') && !lower.endsWith('ss')) add(lower.slice(0, -1));
+
+  if (lower.endsWith('ied')) add(`${lower.slice(0, -3)}y`);
+  for (const suffix of ['ed', 'ing']) {
+    if (!lower.endsWith(suffix)) continue;
+
+    const stem = lower.slice(0, -suffix.length);
+    add(stem);
+    add(`${stem}e`);
+    // Doubled final consonant: stopped -> stop, running -> run
+    if (stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2]) {
+      add(stem.slice(0, -1));
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Normalize a stored term into lower-case tokens
+ * @param term - Headword or collocation
+ */
+export function tokenizeTerm(term: string): string[] {
+  return term.toLowerCase().match(/[a-z]+(?:['-][a-z]+)*/g) || [];
+}
@@ -9,8 +9,11 @@ export interface NotificationOptions {
   duration?: number; // Auto-dismiss duration in ms (0 = no auto-dismiss)
   title?: string;
   iconUrl?: string;
+  action?: { label: string; onClick: () => void }; // Toast button, e.g. Undo
 }
 
+export const UNDO_DURATION = 10000; // ms the undo button stays after a delete
+
 /**
  * Show a desktop notification (Chrome notification API)
  * @param type - Notification type
@@ -114,18 +117,30 @@ export function showToast(
     <div class="flex items-center gap-3 px-4 py-3 rounded-lg shadow-lg bg-white dark:bg-gray-800 border-l-4 ${getToastBorderColor(type)}">
       <span class="text-xl">${icons[type]}</span>
       <span class="text-sm font-medium text-gray-800 dark:text-gray-200">${message}</span>
-      ${type !== 'loading' ? '<button class="ml-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">✕</button>' : ''}
+      ${options.action ? '<button data-toast-action class="ml-2 text-sm font-semibold text-primary-600 hover:text-primary-700"></button>' : ''}
+      ${type !== 'loading' ? '<button data-toast-close class="ml-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">✕</button>' : ''}
     </div>
   `;
 
   // Add close button handler
   if (type !== 'loading') {
-    const closeBtn = toast.querySelector('button');
+    const closeBtn = toast.querySelector('[data-toast-close]');
     closeBtn?.addEventListener('click', () => {
       removeToast(toast);
     });
   }
 
+  // Action button dismisses the toast after running
+  if (options.action) {
+    const { label, onClick } = options.action;
+    const actionBtn = toast.querySelector<HTMLButtonElement>('[data-toast-action]')!;
+    actionBtn.textContent = label;
+    actionBtn.addEventListener('click', () => {
+      removeToast(toast);
+      onClick();
+    });
+  }
+
   container.appendChild(toast);
 
   // Auto-dismiss
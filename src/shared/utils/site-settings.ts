@@ -0,0 +1,35 @@
+/**
+ * Per-site preferences for content-script features
+ */
+
+export const HIGHLIGHT_SITES_KEY = 'highlightSites';
+
+/**
+ * Check whether vocabulary highlighting is enabled for a site
+ * Sites are enabled unless switched off from the popup
+ * @param hostname - Site hostname
+ */
+export async function isHighlightEnabled(hostname: string): Promise<boolean> {
+  const result = await chrome.storage.sync.get(HIGHLIGHT_SITES_KEY);
+  const sites = (result[HIGHLIGHT_SITES_KEY] as Record<string, boolean> | undefined) || {};
+  return sites[hostname] !== false;
+}
+
+/**
+ * Enable or disable vocabulary highlighting for a site
+ * @param hostname - Site hostname
+ * @param enabled - New state
+ */
+export async function setHighlightEnabled(hostname: string, enabled: boolean): Promise<void> {
+  const result = await chrome.storage.sync.get(HIGHLIGHT_SITES_KEY);
+  const sites = { ...(result[HIGHLIGHT_SITES_KEY] as Record<string, boolean> | undefined) };
+
+  // Only store exceptions to keep the sync quota small
+  if (enabled) {
+    delete sites[hostname];
+  } else {
+    sites[hostname] = false;
+  }
+
+  await chrome.storage.sync.set({ [HIGHLIGHT_SITES_KEY]: sites });
+}
@@ -21,6 +21,8 @@ export default defineConfig({
       input: {
         popup: path.resolve(__dirname, 'src/popup/index.html'),
         options: path.resolve(__dirname, 'src/options/index.html'),
+        review: path.resolve(__dirname, 'src/review/index.html'),
+        manage: path.resolve(__dirname, 'src/manage/index.html'),
       },
     },
   },